@@ -0,0 +1,207 @@
+"use client";
+/*
+ * Analytics Page Component
+ * Shows how much storage compression saved across the user's videos: total bytes saved, average
+ * compression ratio, savings per month and breakdowns by format and resolution, with a CSV export
+ * of the monthly figures for the selected period.
+ *
+ * @returns {JSX.Element} - The rendered analytics UI.
+ * @used_in: Automatically rendered by Next.js at the '/analytics' route.
+ */
+import React, { useEffect, useState } from "react";
+import { DownloadIcon } from "lucide-react";
+import { getCompressionAnalytics, getCompressionCsvUrl } from "@/lib/analytics-service";
+import type { CompressionAnalytics, CompressionTotals } from "@/lib/compression-analytics";
+import { formatFileSize } from "@/lib/upload-utils";
+
+/*
+ * "YYYY-MM" of a month relative to the current one (UTC), as used by the month inputs.
+ */
+function getMonthInputValue(monthsAgo: number): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - monthsAgo, 1)).toISOString().slice(0, 7);
+}
+
+/*
+ * Turns the month inputs into the API's inclusive ISO bounds (first instant of the first month,
+ * last instant of the last month).
+ */
+function getPeriodBounds(fromMonth: string, toMonth: string): { from?: string; to?: string } {
+  const toBound = (month: string, offset: number) => {
+    const [year, monthIndex] = month.split("-").map(Number);
+    return new Date(Date.UTC(year, monthIndex - 1 + offset, 1) - (offset ? 1 : 0)).toISOString();
+  };
+  return {
+    from: fromMonth ? toBound(fromMonth, 0) : undefined,
+    to: toMonth ? toBound(toMonth, 1) : undefined,
+  };
+}
+
+/*
+ * Bytes saved, shown with a minus sign when compression made the files bigger.
+ */
+function formatSaved(bytes: number): string {
+  return bytes < 0 ? `-${formatFileSize(-bytes)}` : formatFileSize(bytes);
+}
+
+/*
+ * Table of one breakdown (by format or by resolution).
+ */
+function BreakdownTable({ title, rows }: { title: string; rows: ({ label: string } & CompressionTotals)[] }) {
+  return (
+    <div className="card bg-base-200">
+      <div className="card-body">
+        <h2 className="card-title">{title}</h2>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No videos in this period.</p>
+        ) : (
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th></th>
+                <th className="text-right">Videos</th>
+                <th className="text-right">Saved</th>
+                <th className="text-right">Savings</th>
+                <th className="text-right">Avg. ratio</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.label}>
+                  <th>{row.label}</th>
+                  <td className="text-right">{row.videos}</td>
+                  <td className="text-right">{formatSaved(row.savedBytes)}</td>
+                  <td className="text-right">{row.savingsPercent}%</td>
+                  <td className="text-right">{row.averageRatio.toFixed(2)}×</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Analytics() {
+  const [fromMonth, setFromMonth] = useState(getMonthInputValue(11));
+  const [toMonth, setToMonth] = useState(getMonthInputValue(0));
+  const [analytics, setAnalytics] = useState<CompressionAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const period = getPeriodBounds(fromMonth, toMonth);
+
+  // reload whenever the period changes
+  useEffect(() => {
+    let cancelled = false;
+    getCompressionAnalytics(getPeriodBounds(fromMonth, toMonth))
+      .then((result) => {
+        if (!cancelled) {
+          setAnalytics(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load analytics");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromMonth, toMonth]);
+
+  const maxMonthlySaved = Math.max(1, ...(analytics?.months.map((month) => month.savedBytes) ?? []));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <h1 className="text-3xl font-bold">Compression savings</h1>
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">From</span>
+            <input
+              type="month"
+              className="input input-bordered input-sm"
+              value={fromMonth}
+              max={toMonth || undefined}
+              onChange={(e) => setFromMonth(e.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">To</span>
+            <input
+              type="month"
+              className="input input-bordered input-sm"
+              value={toMonth}
+              min={fromMonth || undefined}
+              onChange={(e) => setToMonth(e.target.value)}
+            />
+          </label>
+          <a href={getCompressionCsvUrl(period)} className="btn btn-outline btn-sm" download>
+            <DownloadIcon className="w-4 h-4" />
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {!analytics ? (
+        !error && <div className="skeleton h-64 w-full"></div>
+      ) : (
+        <>
+          <div className="stats stats-vertical sm:stats-horizontal bg-base-200 w-full">
+            <div className="stat">
+              <div className="stat-title">Bytes saved</div>
+              <div className="stat-value text-primary">{formatSaved(analytics.totals.savedBytes)}</div>
+              <div className="stat-desc">{analytics.totals.savingsPercent}% of the original size</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Average compression ratio</div>
+              <div className="stat-value">{analytics.totals.averageRatio.toFixed(2)}×</div>
+              <div className="stat-desc">Mean across videos</div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Videos</div>
+              <div className="stat-value">{analytics.totals.videos}</div>
+              <div className="stat-desc">
+                {formatFileSize(analytics.totals.originalBytes)} → {formatFileSize(analytics.totals.compressedBytes)}
+              </div>
+            </div>
+          </div>
+
+          <div className="card bg-base-200">
+            <div className="card-body">
+              <h2 className="card-title">Savings over time</h2>
+              {/* one bar per month; the tooltip has the month's figures and the running total */}
+              <div className="flex items-end gap-1 h-48" aria-label="Bytes saved per month">
+                {analytics.months.map((month) => (
+                  <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full gap-1">
+                    <div
+                      className="w-full bg-primary rounded-t min-h-px"
+                      style={{ height: `${(Math.max(0, month.savedBytes) / maxMonthlySaved) * 100}%` }}
+                      title={`${month.month}: ${formatSaved(month.savedBytes)} saved over ${month.videos} videos (${formatSaved(month.cumulativeSavedBytes)} in total)`}
+                    />
+                    <span className="text-[10px] text-gray-500">{month.month.slice(2)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <BreakdownTable
+              title="By format"
+              rows={analytics.byFormat.map(({ format, ...totals }) => ({ label: format === "Unknown" ? format : format.toUpperCase(), ...totals }))}
+            />
+            <BreakdownTable
+              title="By resolution"
+              rows={analytics.byResolution.map(({ resolution, ...totals }) => ({ label: resolution, ...totals }))}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Analytics;
@@ -1,12 +1,183 @@
+"use client";
 /*
  * Home Page Component
- * This is the main landing page for logged-in users.
+ * This is the main landing page for logged-in users: a grid of their uploaded videos.
  *
  * @returns {JSX.Element} - The rendered Home page UI.
  * @used_in: Automatically rendered by Next.js at the '/home' route.
  */
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { SearchIcon, UploadIcon, VideoIcon } from "lucide-react";
+import VideoCard from "@/components/VideoCard";
+import { getVideos, type VideoListParams } from "@/lib/video-api-service";
+import type { VideoDTO } from "@/lib/video-serializer";
+
+// sort options shown in the toolbar, mapped to GET /api/videos parameters
+const sortOptions: Record<string, Pick<VideoListParams, "sort" | "order">> = {
+  "Newest first": { sort: "createdAt", order: "desc" },
+  "Oldest first": { sort: "createdAt", order: "asc" },
+  "Longest": { sort: "duration", order: "desc" },
+  "Largest": { sort: "size", order: "desc" },
+  "Best compression": { sort: "compression", order: "desc" },
+};
+
+type SortOption = keyof typeof sortOptions;
+
 function Home() {
-  return <div>Home</div>;
+  const [videos, setVideos] = useState<VideoDTO[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [sortOption, setSortOption] = useState<SortOption>("Newest first");
+
+  /*
+   * Loads the first page of the user's videos from GET /api/videos.
+   * @logic: clears any previous error, fetches, then stores either the page or the error message.
+   */
+  const loadVideos = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await getVideos({ q: search, ...sortOptions[sortOption] });
+      setVideos(page.videos);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load videos");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, sortOption]);
+
+  /*
+   * Appends the next page using the cursor returned by the previous request.
+   */
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await getVideos({ q: search, cursor: nextCursor, ...sortOptions[sortOption] });
+      setVideos((prev) => [...prev, ...page.videos]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      alert((err as Error).message || "Failed to load more videos");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVideos();
+  }, [loadVideos]);
+
+  // wait until typing pauses before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">Your Videos</h1>
+        <Link href="/video-upload" className="btn btn-primary btn-sm">
+          <UploadIcon className="w-4 h-4" />
+          Upload
+        </Link>
+      </div>
+
+      {/* Search and sort toolbar */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="input input-bordered flex items-center gap-2 flex-grow">
+          <SearchIcon className="w-4 h-4 opacity-60" />
+          <input
+            type="search"
+            className="grow"
+            placeholder="Search titles and descriptions"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </label>
+        <select
+          className="select select-bordered"
+          value={sortOption}
+          onChange={(e) => setSortOption(e.target.value as SortOption)}
+        >
+          {Object.keys(sortOptions).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Loading state */}
+      {isLoading && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <div key={index} className="flex flex-col gap-4">
+              <div className="skeleton aspect-video w-full"></div>
+              <div className="skeleton h-4 w-3/4"></div>
+              <div className="skeleton h-4 w-1/2"></div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Error state */}
+      {!isLoading && error && (
+        <div role="alert" className="alert alert-error">
+          <span>{error}</span>
+          <button className="btn btn-sm" onClick={loadVideos}>
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!isLoading && !error && videos.length === 0 && (
+        <div className="flex flex-col items-center justify-center text-center py-20 bg-base-200 rounded-lg">
+          <VideoIcon className="w-12 h-12 text-gray-400 mb-4" />
+          {search ? (
+            <>
+              <h2 className="text-xl font-semibold mb-2">No matching videos</h2>
+              <p className="text-gray-500">Try a different search.</p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-xl font-semibold mb-2">No videos yet</h2>
+              <p className="text-gray-500 mb-6">Upload your first video to start building your library.</p>
+              <Link href="/video-upload" className="btn btn-primary">
+                Upload a video
+              </Link>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Library grid */}
+      {!isLoading && !error && videos.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {videos.map((video) => (
+            <VideoCard key={video.id} video={video} />
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {!isLoading && !error && nextCursor && (
+        <div className="flex justify-center mt-8">
+          <button className="btn btn-outline" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore && <span className="loading loading-spinner loading-sm"></span>}
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default Home;
@@ -11,12 +11,15 @@ import {
   Share2Icon,
   UploadIcon,
   ImageIcon,
+  BarChart3Icon,
 } from "lucide-react";
+import UsageMeter from "@/components/UsageMeter";
 
 const sidebarItems = [
   { href: "/home", icon: LayoutDashboardIcon, label: "Home Page" },
   { href: "/social-share", icon: Share2Icon, label: "Social Share" },
   { href: "/video-upload", icon: UploadIcon, label: "Video Upload" },
+  { href: "/analytics", icon: BarChart3Icon, label: "Analytics" },
 ];
 
 export default function AppLayout({
@@ -124,6 +127,7 @@ export default function AppLayout({
               </li>
             ))}
           </ul>
+          {user && <UsageMeter refreshKey={pathname} />}
           {user && (
             <div className="p-4">
               <button
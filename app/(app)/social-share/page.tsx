@@ -9,35 +9,127 @@
 import React, {useState, useEffect, useRef} from "react";
 import { CldImage } from "next-cloudinary";
 import axios from "axios";
+import ImagePicker from "@/components/ImagePicker";
+import SocialFormatEditor from "@/components/SocialFormatEditor";
+import FocalPointEditor from "@/components/FocalPointEditor";
+import BrandingEditor from "@/components/BrandingEditor";
+import ResizeModePicker from "@/components/ResizeModePicker";
+import {
+  SOCIAL_FORMATS,
+  OUTPUT_FORMATS,
+  DEFAULT_OUTPUT_OPTIONS,
+  DEFAULT_LAYOUT,
+  getManualCropRect,
+  getSocialTransformation,
+  slugifyFormatName,
+  type CropRect,
+  type FocalPoint,
+  type OutputFormat,
+  type ResizeMode,
+  type SocialFormatSpec,
+  type SocialLayout,
+  type SocialOutputOptions,
+} from "@/lib/social-formats";
+import {
+  estimateImageSize,
+  exportSocialFormatsZip,
+  getSocialFileName,
+  getSocialImageUrl,
+  type ExportStatus,
+} from "@/lib/social-export";
+import { formatFileSize } from "@/lib/upload-utils";
+import { getSocialPresets, type SocialPreset } from "@/lib/social-preset-service";
+import { updateImageFocalPoints, type ImageRecord } from "@/lib/image-api-service";
+import { DEFAULT_BRANDING, type SocialBranding } from "@/lib/social-branding";
+import { getBrandKit } from "@/lib/brand-kit-service";
 
 
 // configuration and objects
-const socialFormats = {
-   // go ahead ask gpt for this
-    "Instagram Square (1:1)": { width: 1080, height: 1080, aspectRatio: "1:1" },
-    "Instagram Portrait (4:5)": { width: 1080, height: 1350, aspectRatio: "4:5" },
-    "Twitter Post (16:9)": { width: 1200, height: 675, aspectRatio: "16:9" },
-    "Twitter Header (3:1)": { width: 1500, height: 500, aspectRatio: "3:1" },
-    "Facebook Cover (205:78)": { width: 820, height: 312, aspectRatio: "205:78" },
-  };
+const DEFAULT_FORMAT = "Instagram Square (1:1)";
 
-type SocialFormat = keyof typeof socialFormats;
+// format names are unique: the API refuses custom names that clash with built-ins
+type SocialFormat = string;
 
 
 function SocialShare() {
 
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-  const [selectedFormat, setSelectedFormat] = useState<SocialFormat>("Instagram Square (1:1)");
+  const [selectedImage, setSelectedImage] = useState<ImageRecord | null>(null);
+  const [selectedFormat, setSelectedFormat] = useState<SocialFormat>(DEFAULT_FORMAT);
+  const [customPresets, setCustomPresets] = useState<SocialPreset[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isTransforming, setIsTransforming] = useState(false);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [exportStatus, setExportStatus] = useState<Record<string, ExportStatus> | null>(null);
+  const [outputOptions, setOutputOptions] = useState<SocialOutputOptions>(DEFAULT_OUTPUT_OPTIONS);
+  const [estimatedSize, setEstimatedSize] = useState<number | null>(null);
+  const [branding, setBranding] = useState<SocialBranding>(DEFAULT_BRANDING);
+  const [resizeModes, setResizeModes] = useState<Record<SocialFormat, ResizeMode>>({});
+  const [removeBackground, setRemoveBackground] = useState(false);
   const imageRef = useRef<HTMLImageElement | null>(null);
 
+  // built-in formats followed by the user's saved ones
+  const socialFormats: Record<SocialFormat, SocialFormatSpec> = {
+    ...SOCIAL_FORMATS,
+    ...Object.fromEntries(customPresets.map((preset) => [preset.name, preset])),
+  };
+  const currentFormat = socialFormats[selectedFormat] ?? SOCIAL_FORMATS[DEFAULT_FORMAT];
+  const uploadedImage = selectedImage?.publicId ?? null;
+
+  // manual crops for the formats that have a saved focal point; the rest use automatic gravity
+  const cropRects: Record<SocialFormat, CropRect> = selectedImage
+    ? Object.fromEntries(
+        Object.entries(selectedImage.focalPoints)
+          .filter(([name]) => Object.hasOwn(socialFormats, name))
+          .map(([name, point]) => [name, getManualCropRect(selectedImage, socialFormats[name], point)])
+      )
+    : {};
+
+  // every format is cropped to fill unless the user picked another mode for it
+  const layouts: Record<SocialFormat, SocialLayout> = Object.fromEntries(
+    Object.keys(socialFormats).map((name) => [name, {
+      mode: resizeModes[name] ?? DEFAULT_LAYOUT.mode,
+      cropRect: cropRects[name] ?? null,
+      removeBackground,
+    }])
+  );
+  const currentLayout = layouts[selectedFormat] ?? DEFAULT_LAYOUT;
+
+  const downloadUrl = uploadedImage
+    ? getSocialImageUrl(uploadedImage, currentFormat, outputOptions, currentLayout, branding)
+    : null;
+
+  // estimating the download size whenever the output changes (debounced while the quality slider moves)
+  useEffect(() => {
+    if (!downloadUrl) return;
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      setEstimatedSize(null);
+      estimateImageSize(downloadUrl).then((size) => {
+        if (!cancelled) setEstimatedSize(size);
+      });
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [downloadUrl]);
+
+  // loading the user's custom formats and brand kit once; the kit is applied straight away
+  useEffect(() => {
+    getSocialPresets()
+      .then(setCustomPresets)
+      .catch((error) => console.log(error));
+    getBrandKit()
+      .then((kit) => kit && setBranding(kit))
+      .catch((error) => console.log(error));
+  }, []);
+
   // listening upload image
   useEffect(() => {
     if(uploadedImage){
       setIsTransforming(true);
     }
-  }, [selectedFormat, uploadedImage]);
+  }, [selectedFormat, uploadedImage, currentLayout.mode, removeBackground]);
 
 /**
  * Handles file upload event, sends file to server for upload and 
@@ -60,7 +152,8 @@ function SocialShare() {
       
       const data = response.data;
       
-      setUploadedImage(data.publicId);
+      setSelectedImage(data.image);
+      setLibraryVersion((version) => version + 1); // show the new upload in the picker
 
     } catch (error) {
        console.log(error);
@@ -72,31 +165,97 @@ function SocialShare() {
   }
 
 /**
- * Downloads the image from the given src link.
- * If the imageRef is null, it simply returns without doing anything.
- * It fetches the image from the src link, creates a blob from the response, and
- * creates a new link element with the blob as its href. It then appends the link to the
- * document body, clicks the link to trigger the download, removes the link from the
- * document body, and finally revokes the object URL to free up memory.
+ * Sets (or clears, for automatic gravity) the focal point of the selected format.
+ * The change is applied locally right away and then saved on the image so it is
+ * remembered the next time the image is picked; on failure the previous value is restored.
+ */
+const handleFocalPointChange = async (focalPoint: FocalPoint | null) => {
+  if(!selectedImage){
+    return;
+  }
+  const previous = selectedImage;
+  const focalPoints = { ...selectedImage.focalPoints };
+  if (focalPoint) {
+    focalPoints[selectedFormat] = focalPoint;
+  } else {
+    delete focalPoints[selectedFormat];
+  }
+  setSelectedImage({ ...selectedImage, focalPoints });
+
+  try {
+    await updateImageFocalPoints(selectedImage.id, focalPoints);
+  } catch (error) {
+    console.log(error);
+    alert((error as Error).message || "Error saving crop");
+    setSelectedImage(previous);
+  }
+}
+
+/**
+ * Saves a blob to the user's disk under the given file name.
+ * It creates a new link element with the blob as its href, appends it to the
+ * document body, clicks it to trigger the download, removes it, and finally
+ * revokes the object URL to free up memory.
+ */
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);  // Store the blob URL
+  const link = document.createElement("a");
+  link.href = url;  // Set the href to the blob URL
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);  // Remove only once
+  window.URL.revokeObjectURL(url);  // Clean up the blob URL
+}
+
+/**
+ * Downloads the image in the selected format, file type and quality.
+ * It fetches the exact Cloudinary rendition (not the responsive preview), so the
+ * file's contents match its extension, and hands the blob to saveBlob.
  */   
 const handleDownload = () => {
-  if(!imageRef.current){
+  if(!downloadUrl){
     return;
   }
-  fetch(imageRef.current.src)
+  fetch(downloadUrl)
   .then((response) => response.blob())
-  .then((blob) => {
-    const url = window.URL.createObjectURL(blob);  // Store the blob URL
-    const link = document.createElement("a");
-    link.href = url;  // Set the href to the blob URL
-    link.download = `${selectedFormat.replace(/\s+/g, "-").toLowerCase()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);  // Remove only once
-    window.URL.revokeObjectURL(url);  // Clean up the blob URL
-  })
+  .then((blob) => saveBlob(
+    blob,
+    getSocialFileName(selectedFormat, currentFormat, OUTPUT_FORMATS[outputOptions.format].extension)
+  ))
+}
+
+/**
+ * Renders the image in every format (built-in and custom) and downloads them as one ZIP.
+ * Per-format progress is tracked in 'exportStatus' while the bundle is built;
+ * formats that fail are left out and shown as failed.
+ */
+const handleDownloadAll = async () => {
+  if(!uploadedImage){
+    return;
+  }
+  setExportStatus(Object.fromEntries(Object.keys(socialFormats).map((name) => [name, "pending"])));
+  try {
+    const zip = await exportSocialFormatsZip(uploadedImage, socialFormats, outputOptions, layouts, branding, (name, status) =>
+      setExportStatus((prev) => ({ ...prev, [name]: status }))
+    );
+    const imageName = slugifyFormatName(uploadedImage.split("/").pop() ?? "image");
+    saveBlob(zip, `${imageName}-social-formats.zip`);
+  } catch (error) {
+    console.log(error);
+    alert((error as Error).message || "Error building the ZIP");
+  } finally {
+    setExportStatus((prev) => (prev && Object.values(prev).includes("error") ? prev : null));
+  }
 }
 
+const isExporting = exportStatus !== null && Object.values(exportStatus).some(
+  (status) => status === "pending" || status === "rendering"
+);
+const exportedCount = exportStatus
+  ? Object.values(exportStatus).filter((status) => status === "done" || status === "error").length
+  : 0;
+
   return (
     
     <div className="container mx-auto p-4 max-w-4xl">
@@ -124,6 +283,15 @@ const handleDownload = () => {
                 </div>
               )}
 
+              <div className="mt-6">
+                <h2 className="card-title mb-2 text-base">Or reuse a previous upload</h2>
+                <ImagePicker
+                  selectedPublicId={uploadedImage}
+                  onSelect={setSelectedImage}
+                  refreshKey={libraryVersion}
+                />
+              </div>
+
               {uploadedImage && (
                 <div className="mt-6">
                   <h2 className="card-title mb-4">Select Social Media Format</h2>
@@ -135,14 +303,76 @@ const handleDownload = () => {
                         setSelectedFormat(e.target.value as SocialFormat)
                       }
                     >
-                      {Object.keys(socialFormats).map((format) => (
-                        <option key={format} value={format}>
-                          {format}
-                        </option>
-                      ))}
+                      <optgroup label="Built-in">
+                        {Object.keys(SOCIAL_FORMATS).map((format) => (
+                          <option key={format} value={format}>
+                            {format}
+                          </option>
+                        ))}
+                      </optgroup>
+                      {customPresets.length > 0 && (
+                        <optgroup label="My formats">
+                          {customPresets.map((preset) => (
+                            <option key={preset.id} value={preset.name}>
+                              {preset.name} ({preset.width}×{preset.height})
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
                     </select>
                   </div>
 
+                  <SocialFormatEditor
+                    presets={customPresets}
+                    onCreated={(preset) => {
+                      setCustomPresets((prev) => [...prev, preset]);
+                      setSelectedFormat(preset.name);
+                    }}
+                    onDeleted={(id) => {
+                      const deleted = customPresets.find((preset) => preset.id === id);
+                      setCustomPresets((prev) => prev.filter((preset) => preset.id !== id));
+                      if (deleted?.name === selectedFormat) setSelectedFormat(DEFAULT_FORMAT);
+                    }}
+                  />
+
+                  <BrandingEditor
+                    branding={branding}
+                    onChange={setBranding}
+                    onSaved={setBranding}
+                    refreshKey={libraryVersion}
+                  />
+
+                  <div className="mt-6">
+                    <ResizeModePicker
+                      publicId={uploadedImage}
+                      spec={currentFormat}
+                      layout={currentLayout}
+                      branding={branding}
+                      onSelect={(mode) => setResizeModes((prev) => ({ ...prev, [selectedFormat]: mode }))}
+                    />
+                    <label className="flex items-center gap-2 cursor-pointer mt-3">
+                      <input
+                        type="checkbox"
+                        className="toggle toggle-sm"
+                        checked={removeBackground}
+                        onChange={(e) => setRemoveBackground(e.target.checked)}
+                      />
+                      <span className="text-sm">Remove background</span>
+                    </label>
+                  </div>
+
+                  {/* the manual crop only applies when the image is cropped to fill */}
+                  {selectedImage && currentLayout.mode === "fill" && (
+                    <div className="mt-6">
+                      <FocalPointEditor
+                        image={selectedImage}
+                        spec={currentFormat}
+                        focalPoint={selectedImage.focalPoints[selectedFormat] ?? null}
+                        onChange={handleFocalPointChange}
+                      />
+                    </div>
+                  )}
+
                   <div className="mt-6 relative">
                     <h3 className="text-lg font-semibold mb-2">Preview:</h3>
                     <div className="flex justify-center">
@@ -152,14 +382,10 @@ const handleDownload = () => {
                         </div>
                       )}
                       <CldImage
-                        width={socialFormats[selectedFormat].width}
-                        height={socialFormats[selectedFormat].height}
                         src={uploadedImage}
                         sizes="100vw"
                         alt="transformed image"
-                        crop="fill"
-                        aspectRatio={socialFormats[selectedFormat].aspectRatio}
-                        gravity='auto'
+                        {...getSocialTransformation(currentFormat, outputOptions, currentLayout, branding)}
                         ref={imageRef}
                         onLoad={() => setIsTransforming(false)}
                         />
@@ -167,11 +393,99 @@ const handleDownload = () => {
 
                   </div>
 
-                  <div className="card-actions justify-end mt-6">
+                  <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label className="form-control">
+                      <span className="label-text mb-1">File type</span>
+                      <select
+                        className="select select-bordered"
+                        value={outputOptions.format}
+                        onChange={(e) =>
+                          setOutputOptions((prev) => ({ ...prev, format: e.target.value as OutputFormat }))
+                        }
+                      >
+                        {Object.entries(OUTPUT_FORMATS).map(([format, { label }]) => (
+                          <option key={format} value={format}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <div className="form-control">
+                      <span className="label-text mb-1 flex justify-between">
+                        <span>Quality</span>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <span className="text-xs">Auto</span>
+                          <input
+                            type="checkbox"
+                            className="toggle toggle-sm"
+                            checked={outputOptions.quality === "auto"}
+                            disabled={!OUTPUT_FORMATS[outputOptions.format].lossy}
+                            onChange={(e) =>
+                              setOutputOptions((prev) => ({ ...prev, quality: e.target.checked ? "auto" : 80 }))
+                            }
+                          />
+                        </label>
+                      </span>
+                      <input
+                        type="range"
+                        className="range range-sm range-primary"
+                        min={1}
+                        max={100}
+                        value={outputOptions.quality === "auto" ? 80 : outputOptions.quality}
+                        disabled={outputOptions.quality === "auto" || !OUTPUT_FORMATS[outputOptions.format].lossy}
+                        onChange={(e) => setOutputOptions((prev) => ({ ...prev, quality: Number(e.target.value) }))}
+                      />
+                      <span className="text-xs text-gray-500 mt-1">
+                        {!OUTPUT_FORMATS[outputOptions.format].lossy
+                          ? "PNG is lossless"
+                          : outputOptions.quality === "auto"
+                            ? "Cloudinary picks the quality"
+                            : `${outputOptions.quality}%`}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="text-sm text-gray-500 mt-4 text-right">
+                    Estimated size:{" "}
+                    {estimatedSize !== null ? formatFileSize(estimatedSize) : <span className="loading loading-dots loading-xs"></span>}
+                  </div>
+
+                  <div className="card-actions justify-end mt-2">
+                    <button className="btn btn-outline" onClick={handleDownloadAll} disabled={isExporting}>
+                      {isExporting && <span className="loading loading-spinner loading-sm"></span>}
+                      Download all formats (ZIP)
+                    </button>
                     <button className="btn btn-primary" onClick={handleDownload}>
                       Download for {selectedFormat}
                     </button>
                   </div>
+
+                  {exportStatus && (
+                    <div className="mt-4 bg-base-200 p-4 rounded-lg">
+                      <progress
+                        className="progress progress-primary w-full"
+                        value={exportedCount}
+                        max={Object.keys(exportStatus).length}
+                      ></progress>
+                      <ul className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm">
+                        {Object.entries(exportStatus).map(([name, status]) => (
+                          <li key={name} className="flex items-center justify-between gap-2">
+                            <span className="truncate">{name}</span>
+                            <span className={`badge badge-sm ${
+                              status === "done" ? "badge-success" : status === "error" ? "badge-error" : "badge-ghost"
+                            }`}>
+                              {status === "rendering" ? "rendering…" : status}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                      {!isExporting && (
+                        <button className="btn btn-ghost btn-xs mt-2" onClick={() => setExportStatus(null)}>
+                          Dismiss
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -7,20 +7,21 @@
  * 1. Validates video files on the client-side
  * 2. Uploads videos directly to Cloudinary (bypassing server file limits)
  * 3. Saves video metadata to the database via API
- * 4. Provides real-time upload progress feedback
+ * 4. Provides real-time upload progress feedback (bytes, speed, ETA) and cancellation
  * 
  * Flow:
- * User selects file → Validation → Cloudinary upload → Database save → Redirect
+ * User selects file → Validation → Cloudinary upload → Database save → Redirect to /videos/[id]
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 
 // Import modular services
 import { 
   uploadVideoToCloudinary, 
   getCloudinaryConfig,
-  type CloudinaryUploadResult 
+  type CloudinaryUploadResult,
+  type UploadProgress
 } from '@/lib/cloudinary-service';
 import { 
   saveVideoMetadata, 
@@ -30,8 +31,12 @@ import {
 import { 
   validateVideoFile, 
   UPLOAD_STATES, 
-  formatFileSize 
+  FILE_SIZE_LIMITS,
+  formatFileSize,
+  formatDuration
 } from '@/lib/upload-utils';
+import { getUsageSummary } from '@/lib/usage-service';
+import type { UsageSummary } from '@/lib/plans';
 
 /**
  * Component state interface
@@ -42,8 +47,22 @@ interface UploadState {
   description: string;
   isUploading: boolean;
   uploadProgress: string;
+  uploadedBytes: number;
+  totalBytes: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
 }
 
+/**
+ * Byte counters reset at the start of every upload
+ */
+const INITIAL_PROGRESS = {
+  uploadedBytes: 0,
+  totalBytes: 0,
+  bytesPerSecond: 0,
+  etaSeconds: null,
+} as const;
+
 export default function VideoUploadPage() {
   // ===== STATE MANAGEMENT =====
   const [state, setState] = useState<UploadState>({
@@ -52,9 +71,23 @@ export default function VideoUploadPage() {
     description: '',
     isUploading: false,
     uploadProgress: UPLOAD_STATES.IDLE,
+    ...INITIAL_PROGRESS,
   });
 
+  // Plan limits, shown next to the file input and checked on selection (the server enforces them)
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const maxFileSize = usage?.limits.maxFileSize ?? FILE_SIZE_LIMITS.MAX_VIDEO_SIZE;
+
   const router = useRouter();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Where the current upload started, used to compute speed (resumed bytes excluded)
+  const progressStartRef = useRef<{ time: number; bytes: number } | null>(null);
+
+  useEffect(() => {
+    getUsageSummary()
+      .then(setUsage)
+      .catch((error) => console.log(error));
+  }, []);
 
   // ===== FORM HANDLERS =====
   
@@ -67,6 +100,9 @@ export default function VideoUploadPage() {
     if (selectedFile) {
       try {
         validateVideoFile(selectedFile);
+        if (selectedFile.size > maxFileSize) {
+          throw new Error(`File size should be less than ${formatFileSize(maxFileSize)} on the ${usage?.planLabel} plan`);
+        }
         setState(prev => ({ ...prev, file: selectedFile }));
         console.log(`📁 File selected: ${selectedFile.name} (${formatFileSize(selectedFile.size)})`);
       } catch (error) {
@@ -89,6 +125,37 @@ export default function VideoUploadPage() {
 
   // ===== UPLOAD LOGIC =====
 
+  /**
+   * Updates byte counters, speed and ETA from a service progress callback
+   */
+  const handleProgress = ({ loadedBytes, totalBytes }: UploadProgress) => {
+    const now = Date.now();
+
+    if (!progressStartRef.current) {
+      progressStartRef.current = { time: now, bytes: loadedBytes };
+    }
+
+    const elapsedSeconds = (now - progressStartRef.current.time) / 1000;
+    const sentBytes = loadedBytes - progressStartRef.current.bytes;
+    const bytesPerSecond = elapsedSeconds > 0 ? sentBytes / elapsedSeconds : 0;
+    const etaSeconds = bytesPerSecond > 0 ? (totalBytes - loadedBytes) / bytesPerSecond : null;
+
+    setState(prev => ({
+      ...prev,
+      uploadedBytes: loadedBytes,
+      totalBytes,
+      bytesPerSecond,
+      etaSeconds,
+    }));
+  };
+
+  /**
+   * Cancels the running upload; handleSubmit resets the state when it sees the abort
+   */
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   /**
    * Main upload handler - orchestrates the entire upload process
    */
@@ -107,16 +174,26 @@ export default function VideoUploadPage() {
       setState(prev => ({ 
         ...prev, 
         isUploading: true, 
-        uploadProgress: UPLOAD_STATES.UPLOADING_TO_CLOUDINARY 
+        uploadProgress: UPLOAD_STATES.UPLOADING_TO_CLOUDINARY,
+        ...INITIAL_PROGRESS,
       }));
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      progressStartRef.current = null;
+
       console.log('🚀 Starting video upload process...');
 
       // === CLOUDINARY UPLOAD PHASE ===
-      const cloudinaryConfig = getCloudinaryConfig();
+      const cloudinaryConfig = await getCloudinaryConfig(state.file!);
       const cloudinaryResult: CloudinaryUploadResult = await uploadVideoToCloudinary(
         state.file!,
-        cloudinaryConfig
+        cloudinaryConfig,
+        {
+          renewConfig: (publicId) => getCloudinaryConfig(state.file!, publicId),
+          onProgress: handleProgress,
+          signal: abortController.signal,
+        }
       );
 
       // === DATABASE SAVE PHASE ===
@@ -131,12 +208,14 @@ export default function VideoUploadPage() {
         description: state.description.trim(),
         publicId: cloudinaryResult.public_id,
         videoUrl: cloudinaryResult.secure_url,
-        originalSize: state.file!.size.toString(),
-        compressedSize: cloudinaryResult.bytes.toString(),
+        originalSize: state.file!.size,
+        compressedSize: cloudinaryResult.bytes,
         duration: cloudinaryResult.duration || 0,
         format: cloudinaryResult.format,
         width: cloudinaryResult.width,
         height: cloudinaryResult.height,
+        codec: cloudinaryResult.video?.codec,
+        bitrate: cloudinaryResult.bit_rate ?? (Number(cloudinaryResult.video?.bit_rate) || undefined),
       };
 
       // Validate and save metadata
@@ -156,12 +235,23 @@ export default function VideoUploadPage() {
         title: apiResponse.video.title
       });
 
-      // Redirect to home page after successful upload
+      // Redirect to the new video's detail page after successful upload
       setTimeout(() => {
-        router.push('/');
+        router.push(`/videos/${apiResponse.video.id}`);
       }, 1000);
 
     } catch (error) {
+      // === CANCELLATION ===
+      if (abortControllerRef.current?.signal.aborted) {
+        console.log('🛑 Upload cancelled by user');
+        setState(prev => ({
+          ...prev,
+          uploadProgress: UPLOAD_STATES.IDLE,
+          ...INITIAL_PROGRESS,
+        }));
+        return;
+      }
+
       // === ERROR HANDLING ===
       console.error('💥 Upload failed:', error);
       
@@ -184,6 +274,7 @@ export default function VideoUploadPage() {
 
     } finally {
       // === CLEANUP PHASE ===
+      abortControllerRef.current = null;
       setState(prev => ({ ...prev, isUploading: false }));
     }
   };
@@ -247,7 +338,9 @@ export default function VideoUploadPage() {
           />
           <div className="label">
             <span className="label-text-alt text-gray-500">
-              Maximum file size: 70MB. Supported formats: MP4, MOV, AVI, MKV, WebM
+              Maximum file size: {formatFileSize(maxFileSize)}
+              {usage && <>, length: {formatDuration(usage.limits.maxVideoDuration)} ({usage.planLabel} plan)</>}
+              . Supported formats: MP4, MOV, AVI, MKV, WebM
             </span>
           </div>
           
@@ -270,7 +363,36 @@ export default function VideoUploadPage() {
               <div className="loading loading-spinner loading-sm"></div>
               <span className="text-sm font-medium">{state.uploadProgress}</span>
             </div>
-            <progress className="progress progress-primary w-full"></progress>
+            {state.uploadProgress === UPLOAD_STATES.UPLOADING_TO_CLOUDINARY && state.totalBytes > 0 ? (
+              <>
+                <progress
+                  className="progress progress-primary w-full"
+                  value={state.uploadedBytes}
+                  max={state.totalBytes}
+                ></progress>
+                <div className="flex justify-between text-xs text-gray-500 mt-2">
+                  <span>
+                    {formatFileSize(state.uploadedBytes)} of {formatFileSize(state.totalBytes)}
+                    {' '}({Math.floor((state.uploadedBytes / state.totalBytes) * 100)}%)
+                  </span>
+                  <span>
+                    {state.bytesPerSecond > 0 && `${formatFileSize(state.bytesPerSecond)}/s`}
+                    {state.etaSeconds !== null && ` · ${formatDuration(state.etaSeconds)} left`}
+                  </span>
+                </div>
+              </>
+            ) : (
+              <progress className="progress progress-primary w-full"></progress>
+            )}
+            {state.uploadProgress === UPLOAD_STATES.UPLOADING_TO_CLOUDINARY && (
+              <button
+                type="button"
+                className="btn btn-outline btn-error btn-sm w-full mt-3"
+                onClick={handleCancel}
+              >
+                Cancel Upload
+              </button>
+            )}
           </div>
         )}
 
@@ -288,11 +410,12 @@ export default function VideoUploadPage() {
       <div className="mt-8 p-4 bg-info/10 rounded-lg">
         <h3 className="font-semibold mb-2">How it works:</h3>
         <ol className="list-decimal list-inside space-y-1 text-sm text-gray-600">
-          <li>Select a video file (up to 70MB)</li>
+          <li>Select a video file (up to {formatFileSize(maxFileSize)})</li>
           <li>Enter a title and optional description</li>
-          <li>Click upload - your video goes directly to Cloudinary</li>
+          <li>Click upload - your video goes directly to Cloudinary in chunks</li>
+          <li>If the upload is interrupted, select the same file again to resume it</li>
           <li>Video metadata is saved to your database</li>
-          <li>You'll be redirected to view your uploaded videos</li>
+          <li>You&apos;ll be redirected to watch your uploaded video</li>
         </ol>
       </div>
     </div>
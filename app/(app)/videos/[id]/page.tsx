@@ -0,0 +1,251 @@
+"use client";
+/*
+ * Video Detail Page Component
+ * Plays one of the user's videos with adaptive streaming and lists every stored metadata field.
+ * The owner can edit the title/description, choose the poster, manage subtitles, share public links (and see
+ * how they are watched), cut clips, generate social renditions or delete the video from here.
+ *
+ * @returns {JSX.Element} - The rendered video detail UI.
+ * @used_in: Automatically rendered by Next.js at the '/videos/[id]' route.
+ */
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { ArrowLeftIcon, PencilIcon, Trash2Icon } from "lucide-react";
+import VideoPlayer from "@/components/VideoPlayer";
+import VideoRenditions from "@/components/VideoRenditions";
+import VideoClips from "@/components/VideoClips";
+import PosterPicker from "@/components/PosterPicker";
+import VideoSubtitles from "@/components/VideoSubtitles";
+import ShareLinks from "@/components/ShareLinks";
+import VideoAnalytics from "@/components/VideoAnalytics";
+import { deleteVideo, getVideo, updateVideo } from "@/lib/video-api-service";
+import type { SubtitleTrackDTO, VideoDTO } from "@/lib/video-serializer";
+import { calculateSavingsPercent, formatDuration, formatFileSize } from "@/lib/upload-utils";
+import { getVideoPosterUrl } from "@/lib/video-urls";
+
+/*
+ * Builds the label/value rows of the metadata table.
+ * Missing values (videos uploaded before the field was recorded) show as an em dash.
+ */
+function getMetadataRows(video: VideoDTO): [string, string][] {
+  return [
+    ["Duration", formatDuration(video.duration)],
+    ["Original size", formatFileSize(video.originalSize)],
+    ["Compressed size", formatFileSize(video.compressedSize)],
+    ["Saved", `${calculateSavingsPercent(video.originalSize, video.compressedSize)}%`],
+    ["Compression ratio", video.compressionRatio ? `${video.compressionRatio.toFixed(2)}×` : "—"],
+    ["Format", video.format?.toUpperCase() ?? "—"],
+    ["Dimensions", video.width && video.height ? `${video.width} × ${video.height}` : "—"],
+    ["Aspect ratio", video.aspectRatio ? video.aspectRatio.toFixed(3) : "—"],
+    ["Codec", video.codec ?? "—"],
+    ["Bitrate", video.bitrate ? `${(video.bitrate / 1000).toFixed(0)} kbps` : "—"],
+    ["Public ID", video.publicId],
+    ["Uploaded", new Date(video.createdAt).toLocaleString()],
+    ["Updated", new Date(video.updatedAt).toLocaleString()],
+  ];
+}
+
+function VideoDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [video, setVideo] = useState<VideoDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState({ title: "", description: "" });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrackDTO[]>([]);
+  const router = useRouter();
+
+  // load the video whenever the id in the URL changes
+  useEffect(() => {
+    let cancelled = false;
+    getVideo(id)
+      .then((result) => {
+        if (!cancelled) setVideo(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load video");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  /*
+   * Opens the edit form pre-filled with the current values.
+   */
+  const startEditing = () => {
+    if (!video) return;
+    setDraft({ title: video.title, description: video.description ?? "" });
+    setIsEditing(true);
+  };
+
+  /*
+   * Saves the edited title/description through PATCH /api/videos/[id].
+   */
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!video) return;
+    setIsSaving(true);
+    try {
+      setVideo(await updateVideo(video.id, { title: draft.title, description: draft.description }));
+      setIsEditing(false);
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /*
+   * Deletes the video (database row + Cloudinary asset) after confirmation, then returns to the library.
+   */
+  const handleDelete = async () => {
+    if (!video || !confirm(`Delete "${video.title}"? This also removes it from Cloudinary and cannot be undone.`)) {
+      return;
+    }
+    setIsDeleting(true);
+    try {
+      await deleteVideo(video.id);
+      router.push("/home");
+    } catch (err) {
+      alert((err as Error).message);
+      setIsDeleting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="max-w-5xl mx-auto">
+        <div role="alert" className="alert alert-error">
+          <span>{error}</span>
+          <Link href="/home" className="btn btn-sm">
+            Back to library
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!video) {
+    return (
+      <div className="max-w-5xl mx-auto flex flex-col gap-4">
+        <div className="skeleton aspect-video w-full"></div>
+        <div className="skeleton h-8 w-1/2"></div>
+        <div className="skeleton h-4 w-3/4"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <Link href="/home" className="btn btn-ghost btn-sm mb-4">
+        <ArrowLeftIcon className="w-4 h-4" />
+        Back to library
+      </Link>
+
+      <VideoPlayer
+        // the player reads its text tracks once, so remount it when they change
+        key={subtitleTracks.map((track) => track.url).join("|")}
+        id={video.id}
+        publicId={video.publicId}
+        width={video.width}
+        height={video.height}
+        poster={getVideoPosterUrl(video, video.width || 1920, video.height || 1080)}
+        subtitles={subtitleTracks}
+      />
+
+      {isEditing ? (
+        <form onSubmit={handleSave} className="mt-6 space-y-4">
+          <input
+            type="text"
+            className="input input-bordered w-full text-lg"
+            value={draft.title}
+            onChange={(e) => setDraft((prev) => ({ ...prev, title: e.target.value }))}
+            required
+            maxLength={200}
+            disabled={isSaving}
+          />
+          <textarea
+            className="textarea textarea-bordered w-full h-24"
+            value={draft.description}
+            onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+            placeholder="Optional description"
+            disabled={isSaving}
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" className="btn btn-ghost" onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={isSaving || !draft.title.trim()}>
+              {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+              Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="mt-6 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">{video.title}</h1>
+            {video.description && <p className="text-gray-600 whitespace-pre-line">{video.description}</p>}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button className="btn btn-outline btn-sm" onClick={startEditing} disabled={isDeleting}>
+              <PencilIcon className="w-4 h-4" />
+              Edit
+            </button>
+            <button className="btn btn-outline btn-error btn-sm" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <span className="loading loading-spinner loading-sm"></span>
+              ) : (
+                <Trash2Icon className="w-4 h-4" />
+              )}
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="card bg-base-200 mt-6">
+        <div className="card-body">
+          <h2 className="card-title">Details</h2>
+          <table className="table table-sm">
+            <tbody>
+              {getMetadataRows(video).map(([label, value]) => (
+                <tr key={label}>
+                  <th className="w-48">{label}</th>
+                  <td className="break-all">{value}</td>
+                </tr>
+              ))}
+              {video.videoUrl && (
+                <tr>
+                  <th className="w-48">Source URL</th>
+                  <td className="break-all">
+                    <a href={video.videoUrl} target="_blank" rel="noopener noreferrer" className="link">
+                      {video.videoUrl}
+                    </a>
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <ShareLinks video={video} />
+
+      <VideoAnalytics videoId={video.id} />
+
+      <VideoSubtitles video={video} onTracksChange={setSubtitleTracks} />
+
+      <PosterPicker video={video} onChange={setVideo} />
+
+      <VideoClips video={video} />
+
+      <VideoRenditions videoId={video.id} />
+    </div>
+  );
+}
+
+export default VideoDetail;
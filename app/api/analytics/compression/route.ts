@@ -0,0 +1,84 @@
+/*
+ * API Route: Compression Analytics ENDPOINT:/api/analytics/compression
+ * Bytes saved by compression across the signed-in user's videos: totals, monthly savings and
+ * breakdowns by format and resolution, as JSON or (with ?format=csv) as a monthly CSV download.
+ *
+ * @used_in: The analytics page at /analytics (figures and the "Export CSV" link).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { parseCompressionQuery, summarizeCompression, toCompressionCsv } from "@/lib/compression-analytics";
+
+/*
+ * GET handler for the /api/analytics/compression endpoint.
+ *
+ * @param {NextRequest} request - Query string: from, to (ISO dates, inclusive), format ('json' or 'csv').
+ * @returns {NextResponse} - CompressionAnalytics JSON, a CSV attachment, OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates the date bounds and format, returning 400 with every problem found.
+ * 3. Reads only the size, format and dimension columns of the user's videos in the period.
+ * 4. Totals them in lib/compression-analytics and returns JSON or CSV.
+ */
+export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const format = request.nextUrl.searchParams.get("format") ?? "json";
+  if (format !== "json" && format !== "csv") {
+    return NextResponse.json({ error: "format must be json or csv" }, { status: 400 });
+  }
+
+  const parsed = parseCompressionQuery(request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const { query } = parsed;
+
+  try {
+    const videos = await prisma.video.findMany({
+      where: {
+        userId,
+        ...((query.from || query.to) && {
+          createdAt: {
+            ...(query.from && { gte: query.from }),
+            ...(query.to && { lte: query.to }),
+          },
+        }),
+      },
+      select: { originalSize: true, compressedSize: true, format: true, width: true, height: true, createdAt: true },
+    });
+
+    const analytics = summarizeCompression(
+      videos.map((video) => ({
+        ...video,
+        originalSize: Number(video.originalSize),
+        compressedSize: Number(video.compressedSize),
+      })),
+      query
+    );
+
+    if (format === "csv") {
+      const period = [analytics.months[0]?.month, analytics.months[analytics.months.length - 1]?.month]
+        .filter(Boolean)
+        .join("_");
+      return new NextResponse(toCompressionCsv(analytics), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="compression-savings${period ? `-${period}` : ""}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+/*
+ * API Route: Brand Kit ENDPOINT:/api/brand-kit
+ * Reads (GET) and saves (PUT) the signed-in user's brand kit: the headline, logo
+ * watermark and pad colour applied automatically to their social images.
+ *
+ * @used_in: The branding editor on the '/social-share' page.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { parseSocialBranding } from "@/lib/social-branding";
+import { readJsonObject } from "@/lib/request-body";
+
+/*
+ * GET handler for the /api/brand-kit endpoint.
+ *
+ * @returns {NextResponse} - { branding } with the saved kit, or { branding: null } if none was saved.
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const kit = await prisma.brandKit.findUnique({ where: { userId } });
+    return NextResponse.json({ branding: kit ? parseSocialBranding(kit.branding) : null });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * PUT handler for the /api/brand-kit endpoint.
+ *
+ * @param {NextRequest} request - JSON body { branding: SocialBranding }.
+ * @returns {NextResponse} - The saved branding OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates the branding (400 if malformed).
+ * 3. Checks the logo is one of the user's own images (400 otherwise).
+ * 4. Creates or replaces the user's kit.
+ */
+export async function PUT(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = await readJsonObject<{ branding?: unknown }>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const branding = parseSocialBranding(body.branding);
+  if (!branding) {
+    return NextResponse.json({ error: "Invalid branding settings" }, { status: 400 });
+  }
+
+  try {
+    if (branding.logo) {
+      const logo = await prisma.image.findFirst({
+        where: { publicId: branding.logo.publicId, userId },
+        select: { id: true },
+      });
+      if (!logo) {
+        return NextResponse.json({ error: "Logo must be an image from your library" }, { status: 400 });
+      }
+    }
+
+    const data = branding as unknown as Prisma.InputJsonObject;
+    await prisma.brandKit.upsert({
+      where: { userId },
+      create: { userId, branding: data },
+      update: { branding: data },
+    });
+
+    return NextResponse.json({ branding });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
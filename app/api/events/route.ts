@@ -0,0 +1,89 @@
+/*
+ * API Route: Playback Events ENDPOINT:/api/events
+ * Public (no sign-in): receives view, play-progress (quartile) and download events from the
+ * share and embed players and adds them to the video's daily counters.
+ *
+ * @used_in: The public share page (/s/[token]) and the embed player (/embed/[token]).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getShareLinkStatus } from "@/lib/share-links";
+import { verifyShareAccess } from "@/lib/share-link-tokens";
+import { PLAYBACK_ANALYTICS_LIMITS, isBotUserAgent, parsePlaybackEvent } from "@/lib/playback-analytics";
+import { getPlaybackViewer, hashParts, recordPlaybackEvent } from "@/lib/playback-events";
+import { consumeRateLimit } from "@/lib/rate-limit";
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/*
+ * POST handler for the /api/events endpoint.
+ *
+ * @param {NextRequest} request - JSON body { token, type, quartile?, access, referrer? }.
+ * @returns {NextResponse} - 202 { recorded } OR an error message.
+ * @logic:
+ * 1. Validates the event (400 with every problem found).
+ * 2. Drops events from bots and scripts (202, recorded: false) so they never reach the counters.
+ * 3. Limits events per IP (429), before anything is looked up.
+ * 4. Only counts events of active share links (404 otherwise), from viewers holding the access
+ *    grant the share API issued (403 otherwise), so protected links only count unlocked viewers.
+ * 5. Limits events per link (429).
+ * 6. Counts each event once per viewer (IP and user agent) and day; repeats answer recorded: false.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const parsed = parsePlaybackEvent(body);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: "Invalid event", details: parsed.errors }, { status: 400 });
+  }
+
+  if (isBotUserAgent(request.headers.get("user-agent"))) {
+    return NextResponse.json({ recorded: false }, { status: 202 });
+  }
+
+  const { event } = parsed;
+  const viewer = getPlaybackViewer(request.headers);
+
+  try {
+    const withinIpLimit = await consumeRateLimit(
+      `events:ip:${hashParts(viewer.ip)}`,
+      PLAYBACK_ANALYTICS_LIMITS.MAX_EVENTS_PER_IP_PER_MINUTE,
+      RATE_LIMIT_WINDOW_MS
+    );
+    if (!withinIpLimit) {
+      return NextResponse.json({ error: "Too many events" }, { status: 429 });
+    }
+
+    const link = await prisma.shareLink.findUnique({
+      where: { token: event.token },
+      select: { videoId: true, expiresAt: true, revokedAt: true },
+    });
+
+    if (!link || getShareLinkStatus(link) !== "active") {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    if (!verifyShareAccess(event.token, event.access)) {
+      return NextResponse.json({ error: "Open the link before reporting playback" }, { status: 403 });
+    }
+
+    const withinLinkLimit = await consumeRateLimit(
+      `events:link:${hashParts(event.token)}`,
+      PLAYBACK_ANALYTICS_LIMITS.MAX_EVENTS_PER_LINK_PER_MINUTE,
+      RATE_LIMIT_WINDOW_MS
+    );
+    if (!withinLinkLimit) {
+      return NextResponse.json({ error: "Too many events" }, { status: 429 });
+    }
+
+    const recorded = await recordPlaybackEvent(link.videoId, event, viewer);
+    return NextResponse.json({ recorded }, { status: 202 });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
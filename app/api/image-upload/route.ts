@@ -1,18 +1,10 @@
 import { NextResponse, NextRequest } from "next/server";
-import { v2 as cloudinary } from "cloudinary";
+import type { UploadApiResponse } from "cloudinary";
 import { auth } from "@clerk/nextjs/server";
-
-// configure cloudinary
-cloudinary.config({
-    cloud_name: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
-    api_key: process.env.CLOUDINARY_API_KEY,
-    api_secret: process.env.CLOUDINARY_API_SECRET,
-});
-
-interface CloudinaryUploadResult {
-    public_id: string;
-    [key: string]: any;
-}
+import cloudinary from "@/lib/cloudinary-server";
+import prisma from "@/lib/prisma";
+import { checkUploadAllowed } from "@/lib/entitlements";
+import { createPendingUpload } from "@/lib/pending-uploads";
 
 export async function POST(request: NextRequest) {
     const { userId } = await auth();
@@ -23,34 +15,76 @@ export async function POST(request: NextRequest) {
     // uploading to cloud
     try {
         const formData = await request.formData();
-        const file = formData.get("file") as File;
+        const file = formData.get("file");
 
-        if (!file) {
+        // a plain text field named "file" is not an upload
+        if (!(file instanceof File)) {
             return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
         }
 
+        // enforcing the plan before anything reaches Cloudinary
+        const quota = await checkUploadAllowed(userId, { fileSize: file.size });
+        if (!quota.ok) {
+            return NextResponse.json({ error: quota.error }, { status: quota.status });
+        }
+
+        // reserving the quota for the length of the upload, so parallel uploads can't all pass the check
+        const publicId = await createPendingUpload(userId, file.size, "image");
+
         // creating a buffer
         const bytes = await file.arrayBuffer();
         const buffer = Buffer.from(bytes);
 
-        const result = await new Promise<CloudinaryUploadResult>((resolve, reject) => {
+        const result = await new Promise<UploadApiResponse>((resolve, reject) => {
             const uploadStream = cloudinary.uploader.upload_stream(
                 {
-                    folder: "youtube",
+                    public_id: publicId,
                     resource_type: "image"
                 },
                 (error, result) => {
-                    if (error) {
+                    if (error || !result) {
                         reject(error);
                     } else {
-                        resolve(result as CloudinaryUploadResult);
+                        resolve(result);
                     }
                 })
             uploadStream.end(buffer);
+        }).catch(async (error) => {
+            // nothing reached Cloudinary, so the reservation can go right away
+            await prisma.upload.delete({ where: { publicId } }).catch(console.log);
+            throw error;
         })
 
+        // saving to the user's image library, and registering the reservation at the stored size
+        const [image] = await prisma.$transaction([
+            prisma.image.create({
+                data: {
+                    userId,
+                    publicId: result.public_id,
+                    width: result.width,
+                    height: result.height,
+                    bytes: result.bytes,
+                    format: result.format,
+                },
+                select: {
+                    id: true,
+                    publicId: true,
+                    width: true,
+                    height: true,
+                    bytes: true,
+                    format: true,
+                    focalPoints: true,
+                    createdAt: true,
+                },
+            }),
+            prisma.upload.update({
+                where: { publicId },
+                data: { bytes: result.bytes, status: "registered", expiresAt: null },
+            }),
+        ]);
+
         return NextResponse.json(
-            { publicId: result.public_id },
+            { publicId: result.public_id, image },
             { status: 200 }
         );
 
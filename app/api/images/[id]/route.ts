@@ -0,0 +1,92 @@
+/*
+ * API Route: One Image ENDPOINT:/api/images/[id]
+ * Updates the per-format manual crop settings (focal points) of one of the signed-in user's images.
+ *
+ * @used_in: The focal-point editor on the '/social-share' page.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import type { FocalPoint } from "@/lib/social-formats";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_FOCAL_POINTS = 100;
+const MAX_FORMAT_NAME_LENGTH = 100;
+
+/*
+ * Checks that the body is { [formatName]: { x, y } } with x and y between 0 and 1.
+ *
+ * @returns The validated map, or null if anything is malformed.
+ */
+function parseFocalPoints(value: unknown): Record<string, FocalPoint> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_FOCAL_POINTS) return null;
+
+  const focalPoints: Record<string, FocalPoint> = {};
+  for (const [name, point] of entries) {
+    if (!name || name.length > MAX_FORMAT_NAME_LENGTH || !point || typeof point !== "object") return null;
+
+    const { x, y } = point as Record<string, unknown>;
+    if (typeof x !== "number" || typeof y !== "number" || x < 0 || x > 1 || y < 0 || y > 1) return null;
+
+    focalPoints[name] = { x, y };
+  }
+  return focalPoints;
+}
+
+/*
+ * PATCH handler for the /api/images/[id] endpoint.
+ *
+ * @param {NextRequest} request - JSON body { focalPoints: { [formatName]: { x, y } } }.
+ * @returns {NextResponse} - The saved focal points OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates the focal points (400 if malformed).
+ * 3. Replaces the stored map on a row matching id AND owner; 404 if none matched.
+ *    Formats missing from the map go back to automatic gravity.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const parsed = await readJsonObject<{ focalPoints?: unknown }>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const focalPoints = parseFocalPoints(body.focalPoints);
+  if (!focalPoints) {
+    return NextResponse.json(
+      { error: "focalPoints must map format names to { x, y } values between 0 and 1" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { count } = await prisma.image.updateMany({
+      where: { id, userId },
+      data: { focalPoints: focalPoints as unknown as Prisma.InputJsonObject },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Image not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ focalPoints });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
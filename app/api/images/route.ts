@@ -0,0 +1,78 @@
+/*
+ * API Route: Fetch User Images ENDPOINT:/api/images
+ * This route handles GET requests to retrieve the signed-in user's uploaded images, newest first.
+ *
+ * Query parameters (all optional):
+ * - cursor: id of the last image of the previous page (from nextCursor)
+ * - limit: page size, 1-100 (default 24)
+ *
+ * @used_in: The image picker on the '/social-share' page.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+
+const DEFAULT_LIMIT = 24;
+const MAX_LIMIT = 100;
+
+/*
+ * GET handler for the /api/images endpoint.
+ *
+ * @param {NextRequest} request - The incoming HTTP request.
+ * @returns {NextResponse} - JSON { images, nextCursor } OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates 'limit', returning 400 if it is out of range.
+ * 3. Queries the 'Image' table for the user's rows, fetching one extra to detect another page.
+ * 4. Returns the page and the cursor for the next one (or null).
+ */
+export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const limit = Number(searchParams.get("limit") ?? DEFAULT_LIMIT);
+  const cursor = searchParams.get("cursor");
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const rows = await prisma.image.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: {
+        id: true,
+        publicId: true,
+        width: true,
+        height: true,
+        bytes: true,
+        format: true,
+        focalPoints: true,
+        createdAt: true,
+      },
+    });
+
+    const hasMore = rows.length > limit;
+    const images = hasMore ? rows.slice(0, limit) : rows;
+
+    return NextResponse.json({
+      images,
+      nextCursor: hasMore ? images[images.length - 1].id : null,
+    });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
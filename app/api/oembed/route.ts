@@ -0,0 +1,110 @@
+/*
+ * API Route: oEmbed ENDPOINT:/api/oembed
+ * Public (no sign-in): describes a share URL as an oEmbed "video" with an iframe of the
+ * /embed/[token] player, so CMSes and chat tools unfurl shared videos automatically.
+ *
+ * @used_in: oEmbed consumers, which find it through the discovery link on /s/[token].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getShareLinkStatus, getSharedPosterUrl } from "@/lib/share-links";
+import {
+  OEMBED_PROVIDER_NAME,
+  getAppOrigin,
+  getEmbedIframeHtml,
+  getEmbedSize,
+  parseShareUrl,
+} from "@/lib/oembed";
+
+// How long consumers may cache a response (seconds); short, since links can be revoked
+const CACHE_AGE = 3600;
+
+/*
+ * Reads an optional positive integer query parameter.
+ * Returns null when the parameter is present but not a positive integer.
+ */
+function parseDimension(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/*
+ * GET handler for the /api/oembed endpoint.
+ *
+ * @param {NextRequest} request - Query string: url (required), format, maxwidth, maxheight.
+ * @returns {NextResponse} - oEmbed JSON OR an error message.
+ * @logic:
+ * 1. Only JSON is supported (501 for any other format, as the oEmbed spec asks).
+ * 2. 'url' must be a /s/[token] or /embed/[token] URL of this app's public origin (400 otherwise).
+ * 3. Unknown, revoked and expired links answer 404; password-protected ones 401, so their
+ *    titles and posters are never shown in unfurls.
+ * 4. The iframe keeps the video's aspect ratio within maxwidth/maxheight.
+ * 5. The thumbnail is the poster served through the link, so the video's Cloudinary public id
+ *    stays private and revoking the link removes it too. It needs no access grant, since
+ *    consumers keep the URL for as long as they cache the unfurl.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  // the same origin the discovery link on /s/[token] was built with, also behind a proxy
+  const origin = getAppOrigin(request.headers);
+
+  const format = searchParams.get("format") ?? "json";
+  if (format !== "json") {
+    return NextResponse.json({ error: "Only the json format is supported" }, { status: 501 });
+  }
+
+  const url = searchParams.get("url");
+  if (!url) {
+    return NextResponse.json({ error: "url is required" }, { status: 400 });
+  }
+
+  const token = parseShareUrl(url, origin);
+  if (!token) {
+    return NextResponse.json({ error: "url is not a share link of this site" }, { status: 400 });
+  }
+
+  const maxWidth = parseDimension(searchParams.get("maxwidth"));
+  const maxHeight = parseDimension(searchParams.get("maxheight"));
+  if (maxWidth === null || maxHeight === null) {
+    return NextResponse.json({ error: "maxwidth and maxheight must be positive integers" }, { status: 400 });
+  }
+
+  try {
+    const link = await prisma.shareLink.findUnique({
+      where: { token },
+      include: { video: true },
+    });
+
+    if (!link || getShareLinkStatus(link) !== "active") {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    if (link.passwordHash) {
+      return NextResponse.json({ error: "This link is password protected" }, { status: 401 });
+    }
+
+    const { video } = link;
+    const { width, height } = getEmbedSize(video, maxWidth, maxHeight);
+
+    return NextResponse.json(
+      {
+        type: "video",
+        version: "1.0",
+        title: video.title,
+        provider_name: OEMBED_PROVIDER_NAME,
+        provider_url: origin,
+        cache_age: CACHE_AGE,
+        html: getEmbedIframeHtml(`${origin}/embed/${token}`, width, height, video.title),
+        width,
+        height,
+        thumbnail_url: `${origin}${getSharedPosterUrl(token)}`,
+        thumbnail_width: width,
+        thumbnail_height: height,
+      },
+      { headers: { "Cache-Control": `public, max-age=${CACHE_AGE}` } }
+    );
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+/*
+ * API Route: Shared Video Media ENDPOINT:/api/share/[token]/media/[kind]
+ * Public (no sign-in): streams the video, poster, download or a subtitle track of a share link
+ * from Cloudinary, so visitors never learn the video's public id. Every request needs the access
+ * grant the share API issued and checks the link again, so revoking or expiring a link stops
+ * playback at once. The poster of a link without a password is the exception: unfurls cache its
+ * URL indefinitely, so it is served without a grant for as long as the link is active.
+ *
+ * Why a proxy rather than a redirect to Cloudinary: videos are stored with the public "upload"
+ * delivery type, whose URLs (signed or not) never expire and carry the public id, so anyone handed
+ * one could keep watching after the link is revoked. Short-lived URLs need the "authenticated"
+ * delivery type with token authentication, which would mean re-uploading the whole library.
+ * The cost is progressive MP4 only (no HLS/DASH), the bytes passing through the server, and
+ * responses bounded by the function time limit; open-ended video ranges are therefore capped at
+ * MAX_RANGE_BYTES, and the player asks for the next part as it plays.
+ *
+ * @used_in: The public share page at /s/[token], the embed player and oEmbed thumbnails
+ *           (URLs built with getSharedMediaUrl).
+ */
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getShareLinkStatus, type SharedMediaKind } from "@/lib/share-links";
+import { verifyShareAccess } from "@/lib/share-link-tokens";
+import { getVideoDownloadUrl, getVideoPlaybackUrl, getVideoPosterUrl } from "@/lib/video-urls";
+
+interface RouteContext {
+  params: Promise<{ token: string; kind: string }>;
+}
+
+const MEDIA_KINDS: SharedMediaKind[] = ["video", "poster", "download", "subtitles"];
+
+// Largest part of the video one request streams (players ask for "bytes=N-" and continue where it ends)
+const MAX_RANGE_BYTES = 8 * 1024 * 1024;
+
+// Upstream headers passed on to the visitor (range support lets the player seek)
+const FORWARDED_HEADERS = ["content-type", "content-length", "content-range", "accept-ranges", "content-disposition"];
+
+/*
+ * GET handler for the /api/share/[token]/media/[kind] endpoint.
+ *
+ * @param {NextRequest} request - Query string: access (grant from the share API; optional for the poster
+ *                                of a link without a password), language (subtitles only).
+ *                                A Range header is forwarded to Cloudinary.
+ * @returns {Response} - The media, streamed from Cloudinary, OR an error message.
+ * @logic:
+ * 1. Unknown kinds answer 404; a missing, forged or lapsed grant 403.
+ * 2. Unknown and revoked links answer 404, expired ones 410 (as the share API does). A poster
+ *    requested without a grant answers 403 when the link has a password.
+ * 3. Builds the Cloudinary URL on the server and streams the response back, keeping range
+ *    responses intact (video ranges capped, see above). Responses are private, so no shared
+ *    cache serves them after a revoke.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token, kind } = await params;
+  const { searchParams } = request.nextUrl;
+
+  if (!MEDIA_KINDS.includes(kind as SharedMediaKind)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  const access = searchParams.get("access");
+  const openPoster = kind === "poster" && access === null;
+  if (!openPoster && !verifyShareAccess(token, access)) {
+    return NextResponse.json({ error: "Access to this link has lapsed, please open it again" }, { status: 403 });
+  }
+
+  try {
+    const language = searchParams.get("language") ?? "";
+    const link = await prisma.shareLink.findUnique({
+      where: { token },
+      include: {
+        video: {
+          include: { subtitles: { where: { language }, select: { url: true } } },
+        },
+      },
+    });
+
+    const status = link ? getShareLinkStatus(link) : "revoked";
+    if (!link || status === "revoked") {
+      return NextResponse.json({ error: "This link does not exist or has been revoked" }, { status: 404 });
+    }
+    if (status === "expired") {
+      return NextResponse.json({ error: "This link has expired" }, { status: 410 });
+    }
+    if (openPoster && link.passwordHash) {
+      return NextResponse.json({ error: "This link is password protected" }, { status: 403 });
+    }
+
+    const { video } = link;
+    let upstreamUrl: string | undefined;
+    switch (kind as SharedMediaKind) {
+      case "video":
+        upstreamUrl = getVideoPlaybackUrl(video.publicId);
+        break;
+      case "poster":
+        upstreamUrl = getVideoPosterUrl(video, video.width || 1920, video.height || 1080);
+        break;
+      case "download":
+        upstreamUrl = getVideoDownloadUrl(video.publicId);
+        break;
+      case "subtitles":
+        upstreamUrl = video.subtitles[0]?.url;
+        break;
+    }
+    if (!upstreamUrl) {
+      return NextResponse.json({ error: "Subtitle track not found" }, { status: 404 });
+    }
+
+    const range = kind === "video" ? capRange(request.headers.get("range")) : request.headers.get("range");
+    const upstream = await fetch(upstreamUrl, { headers: range ? { Range: range } : undefined });
+    if (!upstream.ok || !upstream.body) {
+      console.log("Cloudinary answered", upstream.status, "for shared", kind, "of", token);
+      return NextResponse.json({ error: "Media is not available" }, { status: 502 });
+    }
+
+    const headers = new Headers({ "Cache-Control": "private, no-store" });
+    for (const name of FORWARDED_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) headers.set(name, value);
+    }
+    return new Response(upstream.body, { status: upstream.status, headers });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * Bounds an open-ended or oversized byte range to MAX_RANGE_BYTES, so one response stays well
+ * within the function time limit. Suffix, multi-part and missing ranges are passed on as they are.
+ */
+function capRange(range: string | null): string | null {
+  const match = range?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return range;
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : Infinity;
+  return `bytes=${start}-${Math.min(end, start + MAX_RANGE_BYTES - 1)}`;
+}
@@ -0,0 +1,96 @@
+/*
+ * API Route: Shared Video ENDPOINT:/api/share/[token]
+ * Public (no sign-in): resolves a share link token to the video it shares.
+ * POST rather than GET so the password travels in the body, not in URLs and logs.
+ *
+ * @used_in: The public share page at /s/[token].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { serializeSharedVideo } from "@/lib/video-serializer";
+import { SHARE_LINK_LIMITS, getShareLinkStatus } from "@/lib/share-links";
+import { createShareAccess, verifySharePassword } from "@/lib/share-link-tokens";
+import { consumeRateLimit, getClientIp } from "@/lib/rate-limit";
+import { hashParts } from "@/lib/playback-events";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const PASSWORD_ATTEMPT_WINDOW_MS = SHARE_LINK_LIMITS.PASSWORD_ATTEMPT_WINDOW_MINUTES * 60 * 1000;
+
+/*
+ * POST handler for the /api/share/[token] endpoint.
+ *
+ * @param {NextRequest} request - Optional JSON body { password }.
+ * @returns {NextResponse} - The shared video OR an error message.
+ * @logic:
+ * 1. Unknown and revoked tokens both answer 404, so revoked links reveal nothing.
+ * 2. Expired links answer 410.
+ * 3. Password-protected links answer 401 { passwordRequired: true } until the right password is sent.
+ *    Guesses are rate limited per client and per link before the (slow) hash check, answering 429.
+ * 4. Returns only what the player needs (no owner, sizes or storage details), with media URLs
+ *    carrying a time-limited access grant instead of the video's Cloudinary public id.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params;
+
+  let password = "";
+  try {
+    const body = await request.json();
+    password = typeof body?.password === "string" ? body.password : "";
+  } catch {
+    // no body: a link without a password
+  }
+
+  try {
+    const link = await prisma.shareLink.findUnique({
+      where: { token },
+      include: {
+        video: {
+          include: { subtitles: { select: { language: true, label: true }, orderBy: { language: "asc" } } },
+        },
+      },
+    });
+
+    const status = link ? getShareLinkStatus(link) : "revoked";
+    if (!link || status === "revoked") {
+      return NextResponse.json({ error: "This link does not exist or has been revoked" }, { status: 404 });
+    }
+    if (status === "expired") {
+      return NextResponse.json({ error: "This link has expired" }, { status: 410 });
+    }
+
+    if (link.passwordHash) {
+      if (!password) {
+        return NextResponse.json({ error: "This link is password protected", passwordRequired: true }, { status: 401 });
+      }
+
+      const withinLimits =
+        (await consumeRateLimit(
+          `share:password:ip:${hashParts(getClientIp(request.headers))}`,
+          SHARE_LINK_LIMITS.MAX_PASSWORD_ATTEMPTS_PER_CLIENT,
+          PASSWORD_ATTEMPT_WINDOW_MS
+        )) &&
+        (await consumeRateLimit(
+          `share:password:link:${hashParts(token)}`,
+          SHARE_LINK_LIMITS.MAX_PASSWORD_ATTEMPTS_PER_LINK,
+          PASSWORD_ATTEMPT_WINDOW_MS
+        ));
+      if (!withinLimits) {
+        return NextResponse.json(
+          { error: "Too many password attempts, please try again later", passwordRequired: true },
+          { status: 429 }
+        );
+      }
+      if (!(await verifySharePassword(password, link.passwordHash))) {
+        return NextResponse.json({ error: "Wrong password", passwordRequired: true }, { status: 401 });
+      }
+    }
+
+    return NextResponse.json(serializeSharedVideo(link.video, token, createShareAccess(token)));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+/*
+ * API Route: One Social Preset ENDPOINT:/api/social-presets/[id]
+ * Deletes one of the signed-in user's custom social image formats.
+ *
+ * @used_in: The custom format editor on the '/social-share' page.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * DELETE handler for the /api/social-presets/[id] endpoint.
+ *
+ * @returns {NextResponse} - 200 { success: true }, 404 if the user has no such preset.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { count } = await prisma.socialPreset.deleteMany({
+      where: { id, userId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
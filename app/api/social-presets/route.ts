@@ -0,0 +1,132 @@
+/*
+ * API Route: Social Presets ENDPOINT:/api/social-presets
+ * Lists (GET) and creates (POST) the signed-in user's custom social image formats.
+ *
+ * @used_in: The format picker and custom format editor on the '/social-share' page.
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { SOCIAL_FORMATS, SOCIAL_PRESET_LIMITS, toAspectRatio } from "@/lib/social-formats";
+import { readJsonObject } from "@/lib/request-body";
+
+/*
+ * Expected POST body.
+ */
+interface SocialPresetRequest {
+  name: string;
+  width: number;
+  height: number;
+}
+
+const presetSelect = {
+  id: true,
+  name: true,
+  width: true,
+  height: true,
+  aspectRatio: true,
+  createdAt: true,
+} as const;
+
+/*
+ * GET handler for the /api/social-presets endpoint.
+ *
+ * @returns {NextResponse} - JSON array of the user's presets, oldest first.
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const presets = await prisma.socialPreset.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+      select: presetSelect,
+    });
+
+    return NextResponse.json(presets);
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * POST handler for the /api/social-presets endpoint.
+ *
+ * @param {NextRequest} request - JSON body with 'name', 'width' and 'height'.
+ * @returns {NextResponse} - 201 with the created preset OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates the name (non-empty, not a built-in name) and the dimensions.
+ * 3. Refuses once the user has reached the preset limit.
+ * 4. Derives the aspect ratio from the dimensions and saves the preset.
+ * 5. Returns 409 if the user already has a preset with that name.
+ */
+export async function POST(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = await readJsonObject<SocialPresetRequest>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const width = Number(body.width);
+  const height = Number(body.height);
+  const { MIN_DIMENSION, MAX_DIMENSION, MAX_NAME_LENGTH, MAX_PRESETS_PER_USER } = SOCIAL_PRESET_LIMITS;
+
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return NextResponse.json(
+      { error: `name must be between 1 and ${MAX_NAME_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  if (Object.hasOwn(SOCIAL_FORMATS, name)) {
+    return NextResponse.json({ error: "name is already used by a built-in format" }, { status: 409 });
+  }
+  for (const [field, value] of [["width", width], ["height", height]] as const) {
+    if (!Number.isInteger(value) || value < MIN_DIMENSION || value > MAX_DIMENSION) {
+      return NextResponse.json(
+        { error: `${field} must be an integer between ${MIN_DIMENSION} and ${MAX_DIMENSION}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  try {
+    const count = await prisma.socialPreset.count({ where: { userId } });
+    if (count >= MAX_PRESETS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can save at most ${MAX_PRESETS_PER_USER} custom formats` },
+        { status: 403 }
+      );
+    }
+
+    const preset = await prisma.socialPreset.create({
+      data: {
+        userId,
+        name,
+        width,
+        height,
+        aspectRatio: toAspectRatio(width, height),
+      },
+      select: presetSelect,
+    });
+
+    return NextResponse.json(preset, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "You already have a format with this name" }, { status: 409 });
+    }
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Upload Signature API Route
+ *
+ * Issues short-lived signed upload parameters so the browser can upload a
+ * video straight to Cloudinary without an unsigned preset. Each signature
+ * covers a new one-time public id in the caller's own folder, reserved as a
+ * pending upload, so it cannot be reused for other files or to write
+ * anywhere else in the account, and the upload counts towards the quotas
+ * whether or not it is ever registered.
+ *
+ * Flow:
+ * 1. Verifies the caller is signed in (Clerk)
+ * 2. Checks the requested file type against the upload policy
+ * 3. Deletes a batch of abandoned pending uploads (see lib/pending-uploads)
+ * 4. Renewal (publicId sent): extends the caller's pending upload of that id
+ *    New upload: checks the file size, storage and monthly uploads against
+ *    the caller's plan and reserves a pending upload
+ * 5. Signs { public_id, timestamp } (plus the upload preset, when
+ *    CLOUDINARY_VIDEO_UPLOAD_PRESET is set) with the Cloudinary API secret
+ * 6. Returns signature, timestamp, api key, cloud name and public id
+ *
+ * Note: Cloudinary rejects signed requests whose timestamp is older than
+ * one hour, which is what makes the signature short-lived. The declared
+ * size can't be signed: /api/video-upload re-reads the stored size before
+ * registering, uploads never registered are deleted once they expire, and
+ * restrictions set on the upload preset in the Cloudinary console (such as
+ * a size cap) are enforced by Cloudinary itself.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import cloudinary from '@/lib/cloudinary-server';
+import { checkUploadAllowed } from '@/lib/entitlements';
+import { cleanupExpiredUploads, createPendingUpload, renewPendingUpload } from '@/lib/pending-uploads';
+import { ALLOWED_VIDEO_TYPES, FILE_SIZE_LIMITS, formatFileSize } from '@/lib/upload-utils';
+import { readJsonObject } from '@/lib/request-body';
+
+// ===== ROUTE CONFIGURATION =====
+export const dynamic = 'force-dynamic'; // Signatures must never be cached
+
+const SIGNATURE_TTL_SECONDS = 60 * 60; // Cloudinary's signed request window
+
+// ===== TYPE DEFINITIONS =====
+
+/**
+ * Expected request payload structure
+ */
+interface UploadSignatureRequest {
+  fileType: string;  // MIME type of the file about to be uploaded
+  fileSize: number;  // Size of the file in bytes
+  publicId?: string; // Public id of the caller's upload in progress, to renew its signature
+}
+
+/**
+ * API response structure
+ */
+interface UploadSignatureResponse {
+  signature: string;
+  timestamp: number;
+  expiresAt: number;  // Unix seconds after which Cloudinary refuses the signature
+  apiKey: string;
+  cloudName: string;
+  publicId: string;       // The one public id this signature uploads to
+  uploadPreset?: string;  // Signed too, so it must be sent with the upload
+}
+
+/**
+ * Error response structure
+ */
+interface ErrorResponse {
+  error: string;
+  details?: string;
+}
+
+// ===== MAIN API HANDLER =====
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  // ===== AUTHENTICATION PHASE =====
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json<ErrorResponse>({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const apiKey = process.env.CLOUDINARY_API_KEY;
+  const apiSecret = process.env.CLOUDINARY_API_SECRET;
+  const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
+
+  if (!apiKey || !apiSecret || !cloudName) {
+    console.error('❌ Cloudinary credentials are not configured');
+    return NextResponse.json<ErrorResponse>({ error: 'Uploads are not configured' }, { status: 500 });
+  }
+
+  // ===== REQUEST PARSING PHASE =====
+  const parsed = await readJsonObject<UploadSignatureRequest>(request);
+  if (!parsed.ok) {
+    return NextResponse.json<ErrorResponse>({ error: parsed.error, details: parsed.details }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const fileType = typeof body.fileType === 'string' ? body.fileType : '';
+  const fileSize = Number(body.fileSize);
+  const renewedPublicId = typeof body.publicId === 'string' ? body.publicId : null;
+
+  // ===== POLICY PHASE =====
+  if (!ALLOWED_VIDEO_TYPES.includes(fileType)) {
+    console.warn('🚫 Refusing signature for file type:', fileType || 'missing');
+    return NextResponse.json<ErrorResponse>({
+      error: `File type not allowed: ${fileType || 'unknown'}`
+    }, { status: 415 });
+  }
+
+  if (!Number.isFinite(fileSize) || fileSize <= 0) {
+    return NextResponse.json<ErrorResponse>({ error: 'fileSize must be a positive number' }, { status: 400 });
+  }
+
+  if (fileSize > FILE_SIZE_LIMITS.MAX_VIDEO_SIZE) {
+    return NextResponse.json<ErrorResponse>({
+      error: `File exceeds the ${formatFileSize(FILE_SIZE_LIMITS.MAX_VIDEO_SIZE)} limit`
+    }, { status: 413 });
+  }
+
+  try {
+    // ===== CLEANUP PHASE =====
+    // Best effort: a failure here must not block new uploads
+    await cleanupExpiredUploads().catch((cleanupError) =>
+      console.error('⚠️ Could not clean up abandoned uploads:', cleanupError)
+    );
+
+    // ===== QUOTA PHASE =====
+    let publicId: string;
+
+    if (renewedPublicId) {
+      // The upload was checked and counted when it was first signed
+      if (!(await renewPendingUpload(userId, renewedPublicId, fileSize))) {
+        return NextResponse.json<ErrorResponse>({
+          error: 'This upload can no longer be resumed, please start it again'
+        }, { status: 410 });
+      }
+      publicId = renewedPublicId;
+    } else {
+      // The duration is only known once Cloudinary has the file; /api/video-upload checks it
+      const quota = await checkUploadAllowed(userId, { fileSize });
+
+      if (!quota.ok) {
+        console.warn('🚫 Refusing signature for', userId, '-', quota.error);
+        return NextResponse.json<ErrorResponse>({ error: quota.error }, { status: quota.status });
+      }
+
+      publicId = await createPendingUpload(userId, fileSize);
+    }
+
+    // ===== SIGNING PHASE =====
+    const timestamp = Math.round(Date.now() / 1000);
+    const uploadPreset = process.env.CLOUDINARY_VIDEO_UPLOAD_PRESET || undefined;
+    const signature = cloudinary.utils.api_sign_request(
+      { public_id: publicId, timestamp, ...(uploadPreset && { upload_preset: uploadPreset }) },
+      apiSecret
+    );
+
+    const response: UploadSignatureResponse = {
+      signature,
+      timestamp,
+      expiresAt: timestamp + SIGNATURE_TTL_SECONDS,
+      apiKey,
+      cloudName,
+      publicId,
+      ...(uploadPreset && { uploadPreset }),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('💥 Failed to issue upload signature:', error);
+    return NextResponse.json<ErrorResponse>({
+      error: 'Failed to issue upload signature',
+      details: (error as Error)?.message || 'Unknown error'
+    }, { status: 500 });
+  }
+}
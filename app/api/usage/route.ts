@@ -0,0 +1,28 @@
+/*
+ * API Route: Usage ENDPOINT:/api/usage
+ * Reads (GET) the signed-in user's plan, its limits and how much of them is used.
+ *
+ * @used_in: The usage meter in the app sidebar and the '/video-upload' page.
+ */
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUsageSummary } from "@/lib/entitlements";
+
+/*
+ * GET handler for the /api/usage endpoint.
+ *
+ * @returns {NextResponse} - { plan, planLabel, limits, usage } OR an error message.
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await getUsageSummary(userId));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -5,10 +5,17 @@
  * the video has been successfully uploaded to Cloudinary from the client.
  * 
  * Flow:
- * 1. Receives JSON payload with video metadata from frontend
- * 2. Validates required fields (title, publicId, videoUrl)
- * 3. Saves video record to database via Prisma
- * 4. Returns success response with video details
+ * 1. Verifies the caller is signed in (Clerk)
+ * 2. Receives JSON payload with video metadata from frontend
+ * 3. Validates field types and required fields (title, publicId, videoUrl)
+ * 4. Requires the caller's pending upload for the public ID (issued with the
+ *    upload signature), reads the stored size and duration from Cloudinary and
+ *    checks them against the caller's plan; refused uploads are deleted from
+ *    Cloudinary and their reservation dropped
+ * 5. Saves video record to database via Prisma, owned by the caller, and marks
+ *    the pending upload registered
+ * 6. Starts pre-rendering the hover preview snippet (best effort)
+ * 7. Returns success response with video details
  * 
  * Note: This endpoint does NOT handle file uploads - files are uploaded
  * directly to Cloudinary from the browser to avoid server file size limits.
@@ -17,6 +24,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import prisma from '@/lib/prisma';
+import cloudinary from '@/lib/cloudinary-server';
+import { checkUploadAllowed } from '@/lib/entitlements';
+import { findPendingUpload } from '@/lib/pending-uploads';
+import { requestRawDerivation } from '@/lib/cloudinary-derived';
+import { VIDEO_PREVIEW_TRANSFORMATION } from '@/lib/video-urls';
+import { readJsonObject } from '@/lib/request-body';
 
 // ===== ROUTE CONFIGURATION =====
 export const maxDuration = 60; // 60 seconds timeout for database operations
@@ -32,12 +45,14 @@ interface VideoUploadRequest {
   description: string;
   publicId: string;        // Cloudinary public ID
   videoUrl: string;        // Cloudinary secure URL
-  originalSize: string;    // Original file size in bytes
-  compressedSize: string;  // Cloudinary processed size in bytes
-  duration: number;        // Video duration in seconds
+  originalSize: number | string;    // Original file size in bytes
+  compressedSize: number | string;  // Cloudinary processed size in bytes (re-read from Cloudinary)
+  duration: number;        // Video duration in seconds (re-read from Cloudinary)
   format?: string;         // Video format (mp4, mov, etc.)
   width?: number;          // Video width in pixels
   height?: number;         // Video height in pixels
+  codec?: string;          // Video codec (h264, hevc, etc.)
+  bitrate?: number;        // Bits per second
 }
 
 /**
@@ -67,26 +82,34 @@ interface ErrorResponse {
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     console.log('📥 === VIDEO METADATA SAVE REQUEST ===');
+
+    // ===== AUTHENTICATION PHASE =====
+    const { userId } = await auth();
+
+    if (!userId) {
+      console.error('❌ Unauthenticated upload attempt');
+      return NextResponse.json<ErrorResponse>({
+        error: "Unauthorized"
+      }, { status: 401 });
+    }
     
     // ===== REQUEST PARSING PHASE =====
-    let videoData: VideoUploadRequest;
-    
-    try {
-      videoData = await request.json();
-      console.log('✅ JSON payload parsed successfully');
-      console.log('📊 Received data:', {
-        title: videoData.title,
-        publicId: videoData.publicId,
-        originalSize: videoData.originalSize,
-        duration: videoData.duration
-      });
-    } catch (parseError) {
-      console.error('❌ JSON parsing failed:', parseError);
+    const parsed = await readJsonObject<VideoUploadRequest>(request);
+    if (!parsed.ok) {
+      console.error('❌ JSON parsing failed:', parsed.error);
       return NextResponse.json<ErrorResponse>({
-        error: "Invalid JSON payload", 
-        details: parseError instanceof Error ? parseError.message : "Unknown parsing error"
+        error: parsed.error,
+        details: parsed.details
       }, { status: 400 });
     }
+    const videoData = parsed.body;
+    console.log('✅ JSON payload parsed successfully');
+    console.log('📊 Received data:', {
+      title: videoData.title,
+      publicId: videoData.publicId,
+      originalSize: videoData.originalSize,
+      duration: videoData.duration
+    });
 
     // ===== VALIDATION PHASE =====
     const { 
@@ -99,9 +122,20 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       duration,
       format,
       width,
-      height
+      height,
+      codec,
+      bitrate
     } = videoData;
     
+    // Validate field types before anything calls string or number methods on them
+    const invalidFields = getInvalidFields(videoData);
+    if (invalidFields.length > 0) {
+      console.error('❌ Fields of the wrong type:', invalidFields);
+      return NextResponse.json<ErrorResponse>({
+        error: `Fields of the wrong type: ${invalidFields.join(', ')}`
+      }, { status: 400 });
+    }
+
     // Validate required fields
     const missingFields: string[] = [];
     if (!title?.trim()) missingFields.push('title');
@@ -115,8 +149,75 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       }, { status: 400 });
     }
 
+    // Validate byte counts (stored as BigInt)
+    const originalBytes = toByteCount(originalSize);
+    const compressedBytes = toByteCount(compressedSize);
+
+    if (originalBytes === null || compressedBytes === null) {
+      console.error('❌ Invalid sizes:', { originalSize, compressedSize });
+      return NextResponse.json<ErrorResponse>({
+        error: 'originalSize and compressedSize must be non-negative byte counts'
+      }, { status: 400 });
+    }
+
+    // ===== ENTITLEMENT PHASE =====
+    // Signed uploads land in the caller's folder; anything else isn't theirs to claim
+    const assetId = publicId.trim();
+    if (!assetId.startsWith(`video/${userId}/`)) {
+      console.error('❌ Public ID outside the caller\'s folder:', assetId);
+      return NextResponse.json<ErrorResponse>({
+        error: 'This upload does not belong to you'
+      }, { status: 403 });
+    }
+
+    // Only uploads signed by /api/upload-signature can be registered, and each only once
+    const pending = await findPendingUpload(userId, assetId);
+    if (!pending) {
+      console.error('❌ No pending upload for public ID:', assetId);
+      return NextResponse.json<ErrorResponse>({
+        error: 'This upload has expired or was already saved'
+      }, { status: 410 });
+    }
+
+    // Sizes and duration sent by the client can't be trusted for quotas, ask Cloudinary
+    let asset: { bytes: number; duration?: number };
+    try {
+      asset = await cloudinary.api.resource(assetId, { resource_type: 'video' });
+    } catch (cloudinaryError) {
+      console.error('❌ Could not read the upload from Cloudinary:', cloudinaryError);
+      return NextResponse.json<ErrorResponse>({
+        error: 'Could not verify the upload with Cloudinary',
+        details: (cloudinaryError as Error)?.message
+      }, { status: 502 });
+    }
+
+    const quota = await checkUploadAllowed(userId, {
+      fileSize: asset.bytes,
+      duration: asset.duration,
+      reservedBytes: Number(pending.bytes),
+    });
+    if (!quota.ok) {
+      console.warn('🚫 Upload refused for', userId, '-', quota.error);
+      // The file is already on Cloudinary: remove it so refused uploads don't use storage,
+      // then drop the reservation (left for the expiry cleanup if the file couldn't be deleted)
+      try {
+        await cloudinary.uploader.destroy(assetId, { resource_type: 'video', invalidate: true });
+        await prisma.upload.delete({ where: { id: pending.id } });
+      } catch (destroyError) {
+        console.error('❌ Could not delete the refused upload:', destroyError);
+      }
+      return NextResponse.json<ErrorResponse>({ error: quota.error }, { status: quota.status });
+    }
+
+    const storedBytes = BigInt(asset.bytes);
+    const videoDuration = asset.duration ?? (Number(duration) || 0);
+
+    const videoWidth = toPositiveInt(width);
+    const videoHeight = toPositiveInt(height);
+
     // ===== LOGGING PHASE =====
     console.log('📝 Video metadata to save:');
+    console.log('  👤 Owner:', userId);
     console.log('  📹 Title:', title);
     console.log('  🆔 Public ID:', publicId);
     console.log('  🔗 Video URL:', videoUrl);
@@ -125,23 +226,56 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     console.log('  ⏱️  Duration:', duration, 'seconds');
     console.log('  🎬 Format:', format || 'unknown');
     console.log('  📐 Dimensions:', width && height ? `${width}x${height}` : 'unknown');
+    console.log('  🎞️  Codec:', codec || 'unknown', '@', bitrate || 'unknown', 'bps');
 
     // ===== DATABASE SAVE PHASE =====
     console.log('💾 Saving to database...');
     
-    const video = await prisma.video.create({
-      data: {
-        title: title.trim(),
-        description: description?.trim() || '',
-        publicId: publicId.trim(),
-        originalSize,
-        compressedSize,
-        duration: Number(duration) || 0,
+    // The pending upload becomes the log row of the video, which outlives it for the monthly count.
+    // Claiming it only while still pending keeps a concurrent expiry cleanup from deleting the file.
+    const video = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.upload.updateMany({
+        where: { id: pending.id, status: 'pending' },
+        data: { status: 'registered', bytes: storedBytes, expiresAt: null },
+      });
+      if (count === 0) {
+        throw new Error('The upload expired before it was saved');
       }
+
+      return tx.video.create({
+        data: {
+          userId,
+          title: title.trim(),
+          description: description?.trim() || '',
+          publicId: assetId,
+          videoUrl: videoUrl.trim(),
+          originalSize: originalBytes,
+          compressedSize: storedBytes,
+          compressionRatio: storedBytes > BigInt(0) ? Number(originalBytes) / Number(storedBytes) : null,
+          duration: videoDuration,
+          format: format?.trim() || null,
+          width: videoWidth,
+          height: videoHeight,
+          aspectRatio: videoWidth && videoHeight ? videoWidth / videoHeight : null,
+          codec: codec?.trim() || null,
+          bitrate: toPositiveInt(bitrate),
+        }
+      });
     });
     
     console.log('✅ Video saved successfully with ID:', video.id);
 
+    // ===== PREVIEW PHASE =====
+    // The AI preview takes a while to render; starting it now means the library card
+    // usually has it ready by the first hover. A failure here must not fail the upload,
+    // the card falls back to the poster until Cloudinary renders it on demand.
+    try {
+      await requestRawDerivation(video.publicId, VIDEO_PREVIEW_TRANSFORMATION);
+      console.log('🎞️  Preview snippet requested');
+    } catch (previewError) {
+      console.error('⚠️ Could not request the preview snippet:', previewError);
+    }
+
     // ===== SUCCESS RESPONSE =====
     const response: VideoUploadResponse = {
       success: true,
@@ -184,4 +318,55 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       details: (error as Error)?.message || "Unknown database error"
     }, { status: statusCode });
   }
-}
\ No newline at end of file
+}
+
+// ===== HELPERS =====
+
+/**
+ * JSON types each field of the payload may have (any field may also be missing or null)
+ */
+const FIELD_TYPES: Record<keyof VideoUploadRequest, ('string' | 'number')[]> = {
+  title: ['string'],
+  description: ['string'],
+  publicId: ['string'],
+  videoUrl: ['string'],
+  originalSize: ['number', 'string'],
+  compressedSize: ['number', 'string'],
+  duration: ['number'],
+  format: ['string'],
+  width: ['number'],
+  height: ['number'],
+  codec: ['string'],
+  bitrate: ['number'],
+};
+
+/**
+ * Lists the fields of a payload whose value has the wrong type
+ * @returns string[] - Field names, empty when every present field is well typed
+ */
+function getInvalidFields(data: VideoUploadRequest): string[] {
+  return Object.entries(FIELD_TYPES)
+    .filter(([field, types]) => {
+      const value: unknown = data[field as keyof VideoUploadRequest];
+      return value !== undefined && value !== null && !types.includes(typeof value as 'string' | 'number');
+    })
+    .map(([field]) => field);
+}
+
+/**
+ * Parses a byte count sent as a number or numeric string
+ * @returns bigint, or null when the value is not a non-negative integer
+ */
+function toByteCount(value: number | string | undefined): bigint | null {
+  const text = String(value ?? '').trim();
+  return /^\d+$/.test(text) ? BigInt(text) : null;
+}
+
+/**
+ * Parses an optional positive integer (dimensions, bitrate)
+ * @returns number, or null when missing or invalid
+ */
+function toPositiveInt(value: unknown): number | null {
+  const number = Math.round(Number(value));
+  return Number.isFinite(number) && number > 0 ? number : null;
+}
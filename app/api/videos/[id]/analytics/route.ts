@@ -0,0 +1,52 @@
+/*
+ * API Route: Video Analytics ENDPOINT:/api/videos/[id]/analytics
+ * Views, average watch percentage, downloads and referrers of one of the signed-in user's videos,
+ * counted from its share links and embeds.
+ *
+ * @used_in: The analytics panel on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { PLAYBACK_ANALYTICS_LIMITS } from "@/lib/playback-analytics";
+import { getVideoAnalytics } from "@/lib/playback-events";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * GET handler for the /api/videos/[id]/analytics endpoint.
+ *
+ * @param {NextRequest} request - Optional ?days= (1 to MAX_DAYS, DEFAULT_DAYS when omitted).
+ * @returns {NextResponse} - VideoAnalytics OR an error message.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const rawDays = request.nextUrl.searchParams.get("days");
+  const days = rawDays ? Number(rawDays) : PLAYBACK_ANALYTICS_LIMITS.DEFAULT_DAYS;
+  if (!Number.isInteger(days) || days < 1 || days > PLAYBACK_ANALYTICS_LIMITS.MAX_DAYS) {
+    return NextResponse.json(
+      { error: `days must be an integer between 1 and ${PLAYBACK_ANALYTICS_LIMITS.MAX_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const video = await prisma.video.findFirst({ where: { id, userId }, select: { id: true } });
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await getVideoAnalytics(video.id, days));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
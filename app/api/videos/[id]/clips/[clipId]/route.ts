@@ -0,0 +1,70 @@
+/*
+ * API Route: One Video Clip ENDPOINT:/api/videos/[id]/clips/[clipId]
+ * Deletes a clip of one of the signed-in user's videos, along with its derived file on Cloudinary.
+ *
+ * @used_in: The clip list on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import cloudinary from "@/lib/cloudinary-server";
+import { getClipTransformation } from "@/lib/video-clips";
+
+interface RouteContext {
+  params: Promise<{ id: string; clipId: string }>;
+}
+
+/*
+ * DELETE handler for the /api/videos/[id]/clips/[clipId] endpoint.
+ *
+ * @returns {NextResponse} - 200 { success: true } OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the clip doesn't belong to
+ *    a video the user owns.
+ * 2. Deletes the trimmed derivation from Cloudinary (with invalidate, so CDN copies go too).
+ * 3. If Cloudinary fails, returns 502 and keeps the row so the delete can be retried.
+ * 4. Otherwise deletes the row. The parent video is untouched.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, clipId } = await params;
+
+  try {
+    const clip = await prisma.videoClip.findFirst({
+      where: { id: clipId, video: { id, userId } },
+      select: { id: true, startOffset: true, endOffset: true, video: { select: { publicId: true } } },
+    });
+
+    if (!clip) {
+      return NextResponse.json({ error: "Clip not found" }, { status: 404 });
+    }
+
+    try {
+      await cloudinary.api.delete_derived_by_transformation(
+        [clip.video.publicId],
+        getClipTransformation(clip.startOffset, clip.endOffset),
+        { resource_type: "video", invalidate: true }
+      );
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Could not delete the clip from Cloudinary. Nothing was deleted, please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    await prisma.videoClip.delete({ where: { id: clip.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
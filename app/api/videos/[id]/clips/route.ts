@@ -0,0 +1,194 @@
+/*
+ * API Route: Video Clips ENDPOINT:/api/videos/[id]/clips
+ * Lists (GET) and creates (POST) clips cut out of one of the signed-in user's videos.
+ * Each clip is a trimmed derivation that Cloudinary renders in the background.
+ *
+ * @used_in: The clip timeline on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { serializeClip } from "@/lib/video-serializer";
+import {
+  DERIVED_TIMEOUT_MS,
+  findDerivedVideo,
+  getDerivedVideos,
+  requestDerivedVideos,
+} from "@/lib/cloudinary-derived";
+import { CLIP_LIMITS, getClipTransformation, roundClipOffset } from "@/lib/video-clips";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * Expected POST body.
+ */
+interface VideoClipRequest {
+  title?: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+/*
+ * GET handler for the /api/videos/[id]/clips endpoint.
+ *
+ * @returns {NextResponse} - { clips } in timeline order OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. If any clip is still processing, reads the asset's derived list from Cloudinary once
+ *    and marks the finished ones ready with their size; ones past the timeout become failed.
+ * 3. Returns the clips (sizes as numbers).
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const orderBy = [{ startOffset: "asc" as const }, { endOffset: "asc" as const }];
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, publicId: true, clips: { orderBy } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    let clips = video.clips;
+    const processing = clips.filter((clip) => clip.status === "processing");
+
+    if (processing.length > 0) {
+      const derived = await getDerivedVideos(video.publicId);
+
+      await Promise.all(
+        processing.map((clip) => {
+          const match = findDerivedVideo(derived, getClipTransformation(clip.startOffset, clip.endOffset));
+
+          if (match) {
+            return prisma.videoClip.update({
+              where: { id: clip.id },
+              data: { status: "ready", bytes: BigInt(match.bytes), url: match.secure_url },
+            });
+          }
+          if (Date.now() - clip.updatedAt.getTime() > DERIVED_TIMEOUT_MS) {
+            return prisma.videoClip.update({ where: { id: clip.id }, data: { status: "failed" } });
+          }
+          return null;
+        })
+      );
+
+      clips = await prisma.videoClip.findMany({ where: { videoId: video.id }, orderBy });
+    }
+
+    return NextResponse.json({ clips: clips.map(serializeClip) });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * POST handler for the /api/videos/[id]/clips endpoint.
+ *
+ * @param {NextRequest} request - JSON body with 'startOffset' and 'endOffset' in seconds and an optional 'title'.
+ * @returns {NextResponse} - 202 with the new (processing) clip OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. Validates the range against the video's duration (400) and the per-video clip limit (403).
+ * 3. Asks Cloudinary to render the trimmed video asynchronously; 502 if Cloudinary refuses.
+ * 4. Saves the clip; 409 if the same range was already clipped.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const parsed = await readJsonObject<VideoClipRequest>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const startOffset = roundClipOffset(Number(body.startOffset));
+  const endOffset = roundClipOffset(Number(body.endOffset));
+  const title = typeof body.title === "string" ? body.title.trim() : "";
+
+  if (!Number.isFinite(startOffset) || !Number.isFinite(endOffset) || startOffset < 0) {
+    return NextResponse.json({ error: "startOffset and endOffset must be numbers of seconds" }, { status: 400 });
+  }
+  if (endOffset - startOffset < CLIP_LIMITS.MIN_DURATION) {
+    return NextResponse.json(
+      { error: `A clip must be at least ${CLIP_LIMITS.MIN_DURATION}s long` },
+      { status: 400 }
+    );
+  }
+  if (title.length > CLIP_LIMITS.MAX_TITLE_LENGTH) {
+    return NextResponse.json(
+      { error: `title must be at most ${CLIP_LIMITS.MAX_TITLE_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, publicId: true, title: true, duration: true, _count: { select: { clips: true } } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+    if (endOffset > video.duration) {
+      return NextResponse.json({ error: "endOffset is past the end of the video" }, { status: 400 });
+    }
+    if (video._count.clips >= CLIP_LIMITS.MAX_CLIPS_PER_VIDEO) {
+      return NextResponse.json(
+        { error: `A video can have at most ${CLIP_LIMITS.MAX_CLIPS_PER_VIDEO} clips` },
+        { status: 403 }
+      );
+    }
+
+    let url: string;
+    try {
+      [url] = await requestDerivedVideos(video.publicId, [getClipTransformation(startOffset, endOffset)]);
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Cloudinary could not start rendering. Please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    const clip = await prisma.videoClip.create({
+      data: {
+        videoId: video.id,
+        title: title || `${video.title} (clip)`,
+        startOffset,
+        endOffset,
+        duration: roundClipOffset(endOffset - startOffset),
+        url,
+      },
+    });
+
+    return NextResponse.json(serializeClip(clip), { status: 202 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "This section has already been clipped" }, { status: 409 });
+    }
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
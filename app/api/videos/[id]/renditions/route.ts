@@ -0,0 +1,170 @@
+/*
+ * API Route: Video Renditions ENDPOINT:/api/videos/[id]/renditions
+ * Lists (GET) and requests (POST) social-format renditions (vertical, square, portrait)
+ * of one of the signed-in user's videos. Cloudinary renders them in the background as
+ * eager derivations, cropping around the detected subject.
+ *
+ * @used_in: The renditions panel on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { serializeRendition } from "@/lib/video-serializer";
+import {
+  DERIVED_TIMEOUT_MS,
+  findDerivedVideo,
+  getDerivedVideos,
+  requestDerivedVideos,
+} from "@/lib/cloudinary-derived";
+import {
+  VIDEO_RENDITION_FORMATS,
+  getRenditionTransformation,
+  isVideoRenditionFormat,
+} from "@/lib/video-renditions";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * GET handler for the /api/videos/[id]/renditions endpoint.
+ *
+ * @returns {NextResponse} - { renditions } OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. If any rendition is still processing, reads the asset's derived list from Cloudinary once
+ *    and marks the finished ones ready with their size; ones past the timeout become failed.
+ * 3. Returns the renditions (sizes as numbers).
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, publicId: true, renditions: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    let renditions = video.renditions;
+    const processing = renditions.filter((rendition) => rendition.status === "processing");
+
+    if (processing.length > 0) {
+      const derived = await getDerivedVideos(video.publicId);
+
+      await Promise.all(
+        processing.map((rendition) => {
+          if (!isVideoRenditionFormat(rendition.format)) return null;
+
+          const match = findDerivedVideo(derived, getRenditionTransformation(rendition.format));
+
+          if (match) {
+            return prisma.videoRendition.update({
+              where: { id: rendition.id },
+              data: { status: "ready", bytes: BigInt(match.bytes), url: match.secure_url },
+            });
+          }
+          if (Date.now() - rendition.updatedAt.getTime() > DERIVED_TIMEOUT_MS) {
+            return prisma.videoRendition.update({ where: { id: rendition.id }, data: { status: "failed" } });
+          }
+          return null;
+        })
+      );
+
+      renditions = await prisma.videoRendition.findMany({
+        where: { videoId: video.id },
+        orderBy: { createdAt: "asc" },
+      });
+    }
+
+    return NextResponse.json({ renditions: renditions.map(serializeRendition) });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * POST handler for the /api/videos/[id]/renditions endpoint.
+ *
+ * @param {NextRequest} request - JSON body { formats: ("vertical" | "square" | "portrait")[] }.
+ * @returns {NextResponse} - 202 with { renditions } (the requested ones start as processing) OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. Validates the requested formats (400 if empty or unknown).
+ * 3. Asks Cloudinary to render them asynchronously (explicit + eager_async); 502 if Cloudinary refuses.
+ * 4. Creates or resets one rendition row per format, so failed renditions can be requested again.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const parsed = await readJsonObject<{ formats?: unknown }>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const formats = Array.isArray(body.formats) ? [...new Set(body.formats)] : [];
+  if (formats.length === 0 || !formats.every(isVideoRenditionFormat)) {
+    return NextResponse.json(
+      { error: `formats must list one or more of: ${Object.keys(VIDEO_RENDITION_FORMATS).join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, publicId: true },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    let urls: string[];
+    try {
+      urls = await requestDerivedVideos(video.publicId, formats.map(getRenditionTransformation));
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Cloudinary could not start rendering. Please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    const renditions = await prisma.$transaction(
+      formats.map((format, index) => {
+        const { width, height } = VIDEO_RENDITION_FORMATS[format];
+        const url = urls[index];
+        return prisma.videoRendition.upsert({
+          where: { videoId_format: { videoId: video.id, format } },
+          create: { videoId: video.id, format, width, height, url },
+          update: { status: "processing", bytes: null, url },
+        });
+      })
+    );
+
+    return NextResponse.json({ renditions: renditions.map(serializeRendition) }, { status: 202 });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
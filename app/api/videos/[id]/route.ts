@@ -0,0 +1,269 @@
+/*
+ * API Route: One Video ENDPOINT:/api/videos/[id]
+ * This route reads (GET), edits (PATCH: title, description, poster) and deletes (DELETE) a single video owned by the signed-in user.
+ *
+ * @used_in: The video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import cloudinary from "@/lib/cloudinary-server";
+import { serializeVideo } from "@/lib/video-serializer";
+import { deleteSubtitleFiles } from "@/lib/subtitle-storage";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * Fields a user may change with PATCH.
+ */
+interface VideoUpdateRequest {
+  title?: string;
+  description?: string | null;
+  posterOffset?: number | null;
+  posterPublicId?: string | null;
+}
+
+const TITLE_MAX_LENGTH = 200;
+const DESCRIPTION_MAX_LENGTH = 5000;
+
+/*
+ * GET handler for the /api/videos/[id] endpoint.
+ *
+ * @param {NextRequest} request - The incoming HTTP request.
+ * @param {RouteContext} context - Holds the dynamic 'id' segment.
+ * @returns {NextResponse} - A JSON response with the video OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Looks the video up by id AND owner, so other users' videos look like they don't exist (404).
+ * 3. Returns the video as JSON (byte sizes as numbers).
+ * 4. Catches errors and returns a 500 status code if something goes wrong.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(serializeVideo(video));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/*
+ * PATCH handler for the /api/videos/[id] endpoint.
+ *
+ * @param {NextRequest} request - JSON body with 'title', 'description', 'posterOffset' (seconds of the
+ *                                chosen frame) and/or 'posterPublicId' (an image from the user's library).
+ * @param {RouteContext} context - Holds the dynamic 'id' segment.
+ * @returns {NextResponse} - A JSON response with the updated video OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates the body: title must stay non-empty, both text fields are length-limited.
+ * 3. Validates the poster: a frame must lie within the video, a custom poster must be one of the
+ *    user's images. Choosing one kind of poster clears the other; null clears it.
+ * 4. Updates only a row matching id AND owner; 404 if none matched.
+ * 5. Returns the updated video as JSON.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const parsed = await readJsonObject<VideoUpdateRequest>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const data: {
+    title?: string;
+    description?: string;
+    posterOffset?: number | null;
+    posterPublicId?: string | null;
+    updatedAt: Date;
+  } = { updatedAt: new Date() };
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    if (!title || title.length > TITLE_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `title must be between 1 and ${TITLE_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    data.title = title;
+  }
+
+  if (body.description !== undefined) {
+    const description = typeof body.description === "string" ? body.description.trim() : "";
+    if (description.length > DESCRIPTION_MAX_LENGTH) {
+      return NextResponse.json(
+        { error: `description must be at most ${DESCRIPTION_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    data.description = description;
+  }
+
+  if (body.posterOffset !== undefined && body.posterOffset !== null) {
+    if (typeof body.posterOffset !== "number" || !Number.isFinite(body.posterOffset) || body.posterOffset < 0) {
+      return NextResponse.json({ error: "posterOffset must be a number of seconds" }, { status: 400 });
+    }
+    if (typeof body.posterPublicId === "string") {
+      return NextResponse.json({ error: "Choose either posterOffset or posterPublicId" }, { status: 400 });
+    }
+    data.posterOffset = Math.round(body.posterOffset * 100) / 100;
+    data.posterPublicId = null;
+  } else if (body.posterOffset === null) {
+    data.posterOffset = null;
+  }
+
+  if (body.posterPublicId !== undefined && body.posterPublicId !== null) {
+    if (typeof body.posterPublicId !== "string" || !body.posterPublicId.trim()) {
+      return NextResponse.json({ error: "posterPublicId must be an image public ID" }, { status: 400 });
+    }
+    data.posterPublicId = body.posterPublicId.trim();
+    data.posterOffset = null;
+  } else if (body.posterPublicId === null) {
+    data.posterPublicId = null;
+  }
+
+  if (
+    data.title === undefined &&
+    data.description === undefined &&
+    data.posterOffset === undefined &&
+    data.posterPublicId === undefined
+  ) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  try {
+    if (typeof data.posterOffset === "number") {
+      const current = await prisma.video.findFirst({ where: { id, userId }, select: { duration: true } });
+      if (!current) {
+        return NextResponse.json({ error: "Video not found" }, { status: 404 });
+      }
+      if (data.posterOffset > current.duration) {
+        return NextResponse.json({ error: "posterOffset is past the end of the video" }, { status: 400 });
+      }
+    }
+
+    if (data.posterPublicId) {
+      const image = await prisma.image.findFirst({
+        where: { publicId: data.posterPublicId, userId },
+        select: { id: true },
+      });
+      if (!image) {
+        return NextResponse.json({ error: "Poster image not found in your library" }, { status: 400 });
+      }
+    }
+
+    // updateMany lets us filter on the owner as well as the id
+    const { count } = await prisma.video.updateMany({
+      where: { id, userId },
+      data,
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const video = await prisma.video.findUniqueOrThrow({ where: { id } });
+    return NextResponse.json(serializeVideo(video));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/*
+ * DELETE handler for the /api/videos/[id] endpoint.
+ *
+ * @param {NextRequest} request - The incoming HTTP request.
+ * @param {RouteContext} context - Holds the dynamic 'id' segment.
+ * @returns {NextResponse} - 200 { success: true } OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. Destroys the Cloudinary asset first (with invalidate, so derived renditions and CDN copies go too).
+ *    "not found" counts as success: the asset is already gone.
+ * 3. If Cloudinary fails, returns 502 and keeps the database row so the delete can be retried.
+ * 4. Otherwise deletes the subtitle files (best effort, they are useless without the video)
+ *    and the database row; clips, renditions and subtitle tracks go with it.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, publicId: true, subtitles: { select: { publicId: true } } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    // remove the asset (and its derived renditions) from Cloudinary
+    try {
+      const result = await cloudinary.uploader.destroy(video.publicId, {
+        resource_type: "video",
+        invalidate: true,
+      });
+
+      if (result.result !== "ok" && result.result !== "not found") {
+        throw new Error(`Cloudinary returned "${result.result}"`);
+      }
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Could not delete the video from Cloudinary. Nothing was deleted, please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    await deleteSubtitleFiles(video.subtitles.map((track) => track.publicId)).catch((err) => console.log(err));
+
+    await prisma.video.delete({ where: { id: video.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/*
+ * API Route: One Share Link ENDPOINT:/api/videos/[id]/share-links/[linkId]
+ * Revokes (DELETE) a share link of one of the signed-in user's videos. The row is kept so the
+ * owner can still see the link was revoked, but /s/[token] stops working immediately.
+ *
+ * @used_in: The share panel on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { serializeShareLink } from "@/lib/video-serializer";
+import { getShareLinkStatus } from "@/lib/share-links";
+
+interface RouteContext {
+  params: Promise<{ id: string; linkId: string }>;
+}
+
+/*
+ * DELETE handler for the /api/videos/[id]/share-links/[linkId] endpoint.
+ *
+ * @returns {NextResponse} - The revoked link OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the link doesn't belong to
+ *    a video the user owns.
+ * 2. Sets revokedAt (revoking twice keeps the first date).
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, linkId } = await params;
+
+  try {
+    const link = await prisma.shareLink.findFirst({
+      where: { id: linkId, video: { id, userId } },
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    const revoked = link.revokedAt
+      ? link
+      : await prisma.shareLink.update({ where: { id: link.id }, data: { revokedAt: new Date() } });
+
+    return NextResponse.json(serializeShareLink(revoked, getShareLinkStatus(revoked)));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
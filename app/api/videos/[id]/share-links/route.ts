@@ -0,0 +1,149 @@
+/*
+ * API Route: Video Share Links ENDPOINT:/api/videos/[id]/share-links
+ * Lists (GET) and creates (POST) public share links for one of the signed-in user's videos.
+ * Anyone with an active link can watch the video at /s/[token] without an account.
+ *
+ * @used_in: The share panel on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { serializeShareLink } from "@/lib/video-serializer";
+import { SHARE_LINK_LIMITS, getShareLinkStatus } from "@/lib/share-links";
+import { generateShareToken, hashSharePassword } from "@/lib/share-link-tokens";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * Expected POST body.
+ */
+interface ShareLinkRequest {
+  expiresAt?: string | null;  // ISO date, omitted or null for a link that never expires
+  password?: string | null;   // Omitted, null or empty for a link without a password
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/*
+ * GET handler for the /api/videos/[id]/share-links endpoint.
+ *
+ * @returns {NextResponse} - { links } newest first, each with its current status, OR an error message.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { shareLinks: { orderBy: { createdAt: "desc" } } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      links: video.shareLinks.map((link) => serializeShareLink(link, getShareLinkStatus(link))),
+    });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * POST handler for the /api/videos/[id]/share-links endpoint.
+ *
+ * @param {NextRequest} request - JSON body with an optional 'expiresAt' and 'password'.
+ * @returns {NextResponse} - 201 with the new link OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. Validates the expiry (in the future, at most MAX_EXPIRY_DAYS away) and the password length (400).
+ * 3. Enforces the per-video limit on links that still work (403); revoked and expired ones don't count.
+ * 4. Stores a random token and the scrypt hash of the password, never the password itself.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const parsed = await readJsonObject<ShareLinkRequest>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  let expiresAt: Date | null = null;
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    expiresAt = new Date(body.expiresAt);
+    if (Number.isNaN(expiresAt.getTime())) {
+      return NextResponse.json({ error: "expiresAt must be an ISO date" }, { status: 400 });
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return NextResponse.json({ error: "expiresAt must be in the future" }, { status: 400 });
+    }
+    if (expiresAt.getTime() - Date.now() > SHARE_LINK_LIMITS.MAX_EXPIRY_DAYS * DAY_MS) {
+      return NextResponse.json(
+        { error: `A link can expire at most ${SHARE_LINK_LIMITS.MAX_EXPIRY_DAYS} days from now` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const password = typeof body.password === "string" ? body.password : "";
+  if (
+    password &&
+    (password.length < SHARE_LINK_LIMITS.MIN_PASSWORD_LENGTH || password.length > SHARE_LINK_LIMITS.MAX_PASSWORD_LENGTH)
+  ) {
+    return NextResponse.json(
+      {
+        error: `password must be between ${SHARE_LINK_LIMITS.MIN_PASSWORD_LENGTH} and ${SHARE_LINK_LIMITS.MAX_PASSWORD_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, shareLinks: { select: { expiresAt: true, revokedAt: true } } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const activeLinks = video.shareLinks.filter((link) => getShareLinkStatus(link) === "active");
+    if (activeLinks.length >= SHARE_LINK_LIMITS.MAX_LINKS_PER_VIDEO) {
+      return NextResponse.json(
+        { error: `A video can have at most ${SHARE_LINK_LIMITS.MAX_LINKS_PER_VIDEO} active share links` },
+        { status: 403 }
+      );
+    }
+
+    const link = await prisma.shareLink.create({
+      data: {
+        videoId: video.id,
+        token: generateShareToken(),
+        passwordHash: password ? await hashSharePassword(password) : null,
+        expiresAt,
+      },
+    });
+
+    return NextResponse.json(serializeShareLink(link, getShareLinkStatus(link)), { status: 201 });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
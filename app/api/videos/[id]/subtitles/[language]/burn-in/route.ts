@@ -0,0 +1,71 @@
+/*
+ * API Route: Subtitle Burn-in ENDPOINT:/api/videos/[id]/subtitles/[language]/burn-in
+ * Requests a rendition of the video with one subtitle track burned into the picture, for
+ * social platforms that autoplay muted and ignore caption files.
+ *
+ * @used_in: The subtitles panel on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import prisma from "@/lib/prisma";
+import { serializeSubtitleTrack } from "@/lib/video-serializer";
+import { requestDerivedVideos } from "@/lib/cloudinary-derived";
+import { getBurnInTransformation } from "@/lib/subtitles";
+
+interface RouteContext {
+  params: Promise<{ id: string; language: string }>;
+}
+
+/*
+ * POST handler for the /api/videos/[id]/subtitles/[language]/burn-in endpoint.
+ *
+ * @returns {NextResponse} - 202 with the track (burn-in processing) OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the track doesn't belong to
+ *    a video the user owns.
+ * 2. Asks Cloudinary to render the burned-in video asynchronously; 502 if Cloudinary refuses.
+ * 3. Marks the burn-in as processing. GET /api/videos/[id]/subtitles picks up the result.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, language } = await params;
+
+  try {
+    const track = await prisma.subtitleTrack.findFirst({
+      where: { language, video: { id, userId } },
+      select: { id: true, publicId: true, video: { select: { publicId: true } } },
+    });
+
+    if (!track) {
+      return NextResponse.json({ error: "Subtitle track not found" }, { status: 404 });
+    }
+
+    let url: string;
+    try {
+      [url] = await requestDerivedVideos(track.video.publicId, [getBurnInTransformation(track.publicId)]);
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Cloudinary could not start rendering. Please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    const updated = await prisma.subtitleTrack.update({
+      where: { id: track.id },
+      data: { burnInStatus: "processing", burnInUrl: url, burnInBytes: null },
+    });
+
+    return NextResponse.json(serializeSubtitleTrack(updated), { status: 202 });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+/*
+ * API Route: One Subtitle Track ENDPOINT:/api/videos/[id]/subtitles/[language]
+ * Edits (PATCH) and deletes (DELETE) the subtitle track of one language of a signed-in user's video.
+ *
+ * @used_in: The cue editor and track list on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { serializeSubtitleTrack } from "@/lib/video-serializer";
+import { deleteBurnIn, deleteSubtitleFiles, uploadSubtitleFile } from "@/lib/subtitle-storage";
+import { SUBTITLE_LIMITS, validateCues, type SubtitleCue } from "@/lib/subtitles";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string; language: string }>;
+}
+
+/*
+ * Fields a user may change with PATCH.
+ */
+interface SubtitleUpdateRequest {
+  label?: string;
+  cues?: SubtitleCue[];
+}
+
+/*
+ * PATCH handler for the /api/videos/[id]/subtitles/[language] endpoint.
+ *
+ * @param {NextRequest} request - JSON body with a new 'label' and/or the full edited 'cues' list.
+ * @returns {NextResponse} - The updated track OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the track doesn't belong to
+ *    a video the user owns.
+ * 2. Validates the label and cues (400 with every problem found).
+ * 3. When the cues changed, rewrites the WebVTT file on Cloudinary (502 if that fails) and drops
+ *    the burn-in, which showed the old text.
+ * 4. Saves and returns the track.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, language } = await params;
+
+  const parsed = await readJsonObject<SubtitleUpdateRequest>(request);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { body } = parsed;
+
+  const data: Prisma.SubtitleTrackUpdateInput = {};
+
+  if (body.label !== undefined) {
+    const label = typeof body.label === "string" ? body.label.trim() : "";
+    if (!label || label.length > SUBTITLE_LIMITS.MAX_LABEL_LENGTH) {
+      return NextResponse.json(
+        { error: `label must be between 1 and ${SUBTITLE_LIMITS.MAX_LABEL_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    data.label = label;
+  }
+
+  let cues: SubtitleCue[] | null = null;
+  if (body.cues !== undefined) {
+    const validated = validateCues(body.cues);
+    if (!validated.ok) {
+      return NextResponse.json({ error: "Invalid cues", details: validated.errors }, { status: 400 });
+    }
+    cues = validated.cues;
+  }
+
+  if (data.label === undefined && cues === null) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  try {
+    const track = await prisma.subtitleTrack.findFirst({
+      where: { language, video: { id, userId } },
+      select: { id: true, publicId: true, burnInStatus: true, video: { select: { publicId: true } } },
+    });
+
+    if (!track) {
+      return NextResponse.json({ error: "Subtitle track not found" }, { status: 404 });
+    }
+
+    if (cues) {
+      try {
+        data.url = await uploadSubtitleFile(track.publicId, cues);
+      } catch (cloudinaryError) {
+        console.log(cloudinaryError);
+        return NextResponse.json(
+          {
+            error: "Could not store the subtitle file on Cloudinary. Nothing was changed, please try again.",
+            details: (cloudinaryError as Error)?.message,
+          },
+          { status: 502 }
+        );
+      }
+
+      if (track.burnInStatus) {
+        // best effort: a leftover derivation only costs storage
+        await deleteBurnIn(track.video.publicId, track.publicId).catch((err) => console.log(err));
+      }
+
+      data.cues = cues as unknown as Prisma.InputJsonArray;
+      data.burnInStatus = null;
+      data.burnInUrl = null;
+      data.burnInBytes = null;
+    }
+
+    const updated = await prisma.subtitleTrack.update({ where: { id: track.id }, data });
+    return NextResponse.json(serializeSubtitleTrack(updated));
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * DELETE handler for the /api/videos/[id]/subtitles/[language] endpoint.
+ *
+ * @returns {NextResponse} - 200 { success: true } OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the track doesn't belong to
+ *    a video the user owns.
+ * 2. Deletes the WebVTT file from Cloudinary; 502 keeps the row so the delete can be retried.
+ * 3. Drops the burn-in (best effort) and deletes the row. The video is untouched.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, language } = await params;
+
+  try {
+    const track = await prisma.subtitleTrack.findFirst({
+      where: { language, video: { id, userId } },
+      select: { id: true, publicId: true, burnInStatus: true, video: { select: { publicId: true } } },
+    });
+
+    if (!track) {
+      return NextResponse.json({ error: "Subtitle track not found" }, { status: 404 });
+    }
+
+    try {
+      await deleteSubtitleFiles([track.publicId]);
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Could not delete the subtitle file from Cloudinary. Nothing was deleted, please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    if (track.burnInStatus) {
+      await deleteBurnIn(track.video.publicId, track.publicId).catch((err) => console.log(err));
+    }
+
+    await prisma.subtitleTrack.delete({ where: { id: track.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
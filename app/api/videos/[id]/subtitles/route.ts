@@ -0,0 +1,201 @@
+/*
+ * API Route: Video Subtitles ENDPOINT:/api/videos/[id]/subtitles
+ * Lists (GET) and uploads (POST) the subtitle tracks of one of the signed-in user's videos,
+ * one track per language. Uploaded SRT/WebVTT files are validated, converted to WebVTT and
+ * stored on Cloudinary, where the player loads them from.
+ *
+ * @used_in: The subtitles panel on the video detail page at /videos/[id].
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { serializeSubtitleTrack } from "@/lib/video-serializer";
+import { DERIVED_TIMEOUT_MS, findDerivedVideo, getDerivedVideos } from "@/lib/cloudinary-derived";
+import { deleteBurnIn, getSubtitlePublicId, uploadSubtitleFile } from "@/lib/subtitle-storage";
+import {
+  SUBTITLE_LIMITS,
+  getBurnInTransformation,
+  getLanguageLabel,
+  isLanguageCode,
+  parseSubtitleFile,
+} from "@/lib/subtitles";
+import { readJsonObject } from "@/lib/request-body";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/*
+ * Expected POST body.
+ */
+interface SubtitleUploadRequest {
+  language: string;
+  label?: string;
+  content: string;  // Text of the .srt or .vtt file
+}
+
+/*
+ * GET handler for the /api/videos/[id]/subtitles endpoint.
+ *
+ * @returns {NextResponse} - { tracks } ordered by language OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. If any burn-in is still processing, reads the asset's derived list from Cloudinary once
+ *    and marks the finished ones ready with their size; ones past the timeout become failed.
+ * 3. Returns the tracks with their cues.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: { id: true, publicId: true, subtitles: { orderBy: { language: "asc" } } },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    let tracks = video.subtitles;
+    const processing = tracks.filter((track) => track.burnInStatus === "processing");
+
+    if (processing.length > 0) {
+      const derived = await getDerivedVideos(video.publicId);
+
+      await Promise.all(
+        processing.map((track) => {
+          const match = findDerivedVideo(derived, getBurnInTransformation(track.publicId));
+
+          if (match) {
+            return prisma.subtitleTrack.update({
+              where: { id: track.id },
+              data: { burnInStatus: "ready", burnInBytes: BigInt(match.bytes), burnInUrl: match.secure_url },
+            });
+          }
+          if (Date.now() - track.updatedAt.getTime() > DERIVED_TIMEOUT_MS) {
+            return prisma.subtitleTrack.update({ where: { id: track.id }, data: { burnInStatus: "failed" } });
+          }
+          return null;
+        })
+      );
+
+      tracks = await prisma.subtitleTrack.findMany({ where: { videoId: video.id }, orderBy: { language: "asc" } });
+    }
+
+    return NextResponse.json({ tracks: tracks.map(serializeSubtitleTrack) });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+/*
+ * POST handler for the /api/videos/[id]/subtitles endpoint.
+ *
+ * @param {NextRequest} request - JSON body with the 'language' code, the file 'content' and an optional 'label'.
+ * @returns {NextResponse} - 201 with the new track (200 when it replaced the language's track) OR an error message.
+ * @logic:
+ * 1. Rejects the request with 401 if nobody is signed in, 404 if the user doesn't own the video.
+ * 2. Validates the language, label and file size, then parses the SRT/WebVTT file (400 with every problem found).
+ * 3. Enforces the per-video track limit (403) unless the language already has a track.
+ * 4. Uploads the converted WebVTT file to Cloudinary; 502 if Cloudinary refuses.
+ * 5. Creates or replaces the track. A replaced track loses its burn-in, which showed the old text.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const parsedBody = await readJsonObject<SubtitleUploadRequest>(request);
+  if (!parsedBody.ok) {
+    return NextResponse.json({ error: parsedBody.error }, { status: 400 });
+  }
+  const { body } = parsedBody;
+
+  if (!isLanguageCode(body.language)) {
+    return NextResponse.json({ error: 'language must be a language code such as "en" or "pt-BR"' }, { status: 400 });
+  }
+  const label = typeof body.label === "string" && body.label.trim() ? body.label.trim() : getLanguageLabel(body.language);
+  if (label.length > SUBTITLE_LIMITS.MAX_LABEL_LENGTH) {
+    return NextResponse.json(
+      { error: `label must be at most ${SUBTITLE_LIMITS.MAX_LABEL_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+  if (typeof body.content !== "string" || !body.content.trim()) {
+    return NextResponse.json({ error: "content must be the text of an SRT or WebVTT file" }, { status: 400 });
+  }
+  if (Buffer.byteLength(body.content, "utf-8") > SUBTITLE_LIMITS.MAX_FILE_SIZE) {
+    return NextResponse.json({ error: "Subtitle file is too large" }, { status: 400 });
+  }
+
+  const parsed = parseSubtitleFile(body.content);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: "Invalid subtitle file", details: parsed.errors }, { status: 400 });
+  }
+
+  try {
+    const video = await prisma.video.findFirst({
+      where: { id, userId },
+      select: {
+        id: true,
+        publicId: true,
+        subtitles: { select: { language: true, publicId: true, burnInStatus: true } },
+      },
+    });
+
+    if (!video) {
+      return NextResponse.json({ error: "Video not found" }, { status: 404 });
+    }
+
+    const existing = video.subtitles.find((track) => track.language === body.language);
+    if (!existing && video.subtitles.length >= SUBTITLE_LIMITS.MAX_TRACKS_PER_VIDEO) {
+      return NextResponse.json(
+        { error: `A video can have at most ${SUBTITLE_LIMITS.MAX_TRACKS_PER_VIDEO} subtitle tracks` },
+        { status: 403 }
+      );
+    }
+
+    const publicId = getSubtitlePublicId(userId, video.id, body.language);
+    let url: string;
+    try {
+      url = await uploadSubtitleFile(publicId, parsed.cues);
+    } catch (cloudinaryError) {
+      console.log(cloudinaryError);
+      return NextResponse.json(
+        {
+          error: "Could not store the subtitle file on Cloudinary. Please try again.",
+          details: (cloudinaryError as Error)?.message,
+        },
+        { status: 502 }
+      );
+    }
+
+    if (existing?.burnInStatus) {
+      // best effort: a leftover derivation only costs storage
+      await deleteBurnIn(video.publicId, existing.publicId).catch((err) => console.log(err));
+    }
+
+    const cues = parsed.cues as unknown as Prisma.InputJsonArray;
+    const track = await prisma.subtitleTrack.upsert({
+      where: { videoId_language: { videoId: video.id, language: body.language } },
+      create: { videoId: video.id, language: body.language, label, cues, publicId, url },
+      update: { label, cues, publicId, url, burnInStatus: null, burnInUrl: null, burnInBytes: null },
+    });
+
+    return NextResponse.json(serializeSubtitleTrack(track), { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.log(error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -1,34 +1,71 @@
 /*
- * API Route: Fetch All Videos ENDPOINT:/api/videos
- * This route handles GET requests to retrieve a list of all videos from the database.
+ * API Route: Fetch User Videos ENDPOINT:/api/videos
+ * This route handles GET requests to retrieve the signed-in user's videos from the database,
+ * one page at a time, with optional search, filters and sorting.
+ *
+ * Query parameters (all optional):
+ * - cursor: id of the last video of the previous page (from nextCursor)
+ * - limit: page size, 1-100 (default 24)
+ * - q: text matched against title and description
+ * - minDuration / maxDuration: duration range in seconds
+ * - minSize / maxSize: original size range in bytes
+ * - from / to: upload date range (ISO dates)
+ * - sort: createdAt | duration | size | compression (default createdAt)
+ * - order: asc | desc (default desc)
  *
  * @used_in: Client-side components or pages that need to display a video list.
  */
 import { NextRequest, NextResponse } from "next/server"; // default way to take and pass on response in next-js
+import { auth } from "@clerk/nextjs/server";
 import prisma from "@/lib/prisma";
+import { serializeVideo } from "@/lib/video-serializer";
+import { buildVideoOrderBy, buildVideoWhere, parseVideoListQuery } from "@/lib/video-query";
 
 /*
  * GET handler for the /api/videos endpoint.
  *
  * @param {NextRequest} request - The incoming HTTP request.
- * @returns {NextResponse} - A JSON response with the list of videos OR an error message.
+ * @returns {NextResponse} - JSON { videos, nextCursor } OR an error message.
  * @logic:
- * 1. Attempts to query the 'Video' table in the database.
- * 2. Orders the results by 'createdAt' (newest first).
- * 3. Returns the array of videos as JSON if successful.
- * 4. Catches errors and returns a 500 status code if something goes wrong.
- * 5. Ensures the database connection is closed after the operation is finished.
+ * 1. Rejects the request with 401 if nobody is signed in.
+ * 2. Validates the query parameters, returning 400 with every problem found.
+ * 3. Queries the 'Video' table for rows owned by the current user matching the filters.
+ * 4. Fetches one extra row to know whether another page exists.
+ * 5. Returns the page (byte sizes as numbers) and the cursor for the next one (or null).
+ * 6. Catches errors and returns a 500 status code if something goes wrong.
+ * 7. Ensures the database connection is closed after the operation is finished.
  */
 export async function GET(request: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const parsed = parseVideoListQuery(request.nextUrl.searchParams);
+  if (!parsed.ok) {
+    return NextResponse.json(
+      { error: "Invalid query parameters", details: parsed.errors },
+      { status: 400 }
+    );
+  }
+  const { query } = parsed;
+
   try {
-    // Query the database for all videos (from the doc of prisma)
-    const videos = await prisma.video.findMany({
-      orderBy: {
-        createdAt: "desc",
-      },
+    // Query the database for the user's videos (from the doc of prisma)
+    const rows = await prisma.video.findMany({
+      where: buildVideoWhere(userId, query),
+      orderBy: buildVideoOrderBy(query),
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
     });
 
-    return NextResponse.json(videos);
+    const hasMore = rows.length > query.limit;
+    const videos = hasMore ? rows.slice(0, query.limit) : rows;
+
+    return NextResponse.json({
+      videos: videos.map(serializeVideo),
+      nextCursor: hasMore ? videos[videos.length - 1].id : null,
+    });
   } catch (error) {
     console.log(error);
     return NextResponse.json(
@@ -0,0 +1,84 @@
+"use client";
+/*
+ * Embed Player Page Component
+ * Chrome-less player for iframes on other sites (served with its own frame-ancestors policy,
+ * see next.config.ts). Fills the frame with the video; protected links show a compact password form.
+ * Views, watch progress and downloads are reported to the video's analytics.
+ *
+ * @returns {JSX.Element} - The rendered embed player.
+ * @used_in: Automatically rendered by Next.js at the '/embed/[token]' route; linked from /api/oembed.
+ */
+import React, { useEffect, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { DownloadIcon } from "lucide-react";
+import SharedVideoPlayer from "@/components/SharedVideoPlayer";
+import SharePasswordForm from "@/components/SharePasswordForm";
+import { getSharedVideo } from "@/lib/video-api-service";
+import type { SharedVideoDTO } from "@/lib/video-serializer";
+import { trackPlaybackEvent, watchPlayback } from "@/lib/playback-tracking";
+
+function EmbedPlayer() {
+  const { token } = useParams<{ token: string }>();
+  const [video, setVideo] = useState<SharedVideoDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  // open the link without a password; protected links answer with a password prompt
+  useEffect(() => {
+    let cancelled = false;
+    getSharedVideo(token)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.status === "ok") setVideo(result.video);
+        else setNeedsPassword(true);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to open share link");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // report views and watch progress once the player is on the page
+  useEffect(() => {
+    if (!video || !videoRef.current) return;
+    return watchPlayback(videoRef.current, token, video.access);
+  }, [video, token]);
+
+  return (
+    <div className="w-screen h-screen overflow-hidden bg-black flex items-center justify-center">
+      {error ? (
+        <p className="text-sm text-gray-300 p-4 text-center">{error}</p>
+      ) : needsPassword ? (
+        <SharePasswordForm
+          token={token}
+          onUnlock={(unlocked) => {
+            setVideo(unlocked);
+            setNeedsPassword(false);
+          }}
+          onError={setError}
+          compact
+        />
+      ) : video ? (
+        <div className="relative w-full max-h-full">
+          <SharedVideoPlayer video={video} videoRef={videoRef} />
+          <a
+            href={video.downloadUrl}
+            className="btn btn-circle btn-ghost btn-sm absolute top-2 right-2 text-white"
+            onClick={() => trackPlaybackEvent(token, video.access, "download")}
+            aria-label="Download"
+            title="Download"
+          >
+            <DownloadIcon className="w-4 h-4" />
+          </a>
+        </div>
+      ) : (
+        <span className="loading loading-spinner loading-md text-gray-300"></span>
+      )}
+    </div>
+  );
+}
+
+export default EmbedPlayer;
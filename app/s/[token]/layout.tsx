@@ -0,0 +1,34 @@
+/*
+ * Shared Video Layout
+ * Server wrapper of the public share page: adds the oEmbed discovery link to the page head so
+ * CMSes and chat tools that are given a /s/[token] URL can find /api/oembed.
+ *
+ * @param {children} - The shared video page.
+ * @used_in: Automatically used by Next.js for the '/s/[token]' route.
+ */
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { getAppOrigin } from "@/lib/oembed";
+
+interface SharedVideoLayoutProps {
+  children: React.ReactNode;
+  params: Promise<{ token: string }>;
+}
+
+export async function generateMetadata({ params }: SharedVideoLayoutProps): Promise<Metadata> {
+  const { token } = await params;
+  const origin = getAppOrigin(await headers());
+
+  const shareUrl = `${origin}/s/${encodeURIComponent(token)}`;
+  return {
+    alternates: {
+      types: {
+        "application/json+oembed": `${origin}/api/oembed?url=${encodeURIComponent(shareUrl)}&format=json`,
+      },
+    },
+  };
+}
+
+export default function SharedVideoLayout({ children }: SharedVideoLayoutProps) {
+  return children;
+}
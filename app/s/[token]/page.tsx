@@ -0,0 +1,102 @@
+"use client";
+/*
+ * Shared Video Page Component
+ * Public page behind a share link: plays the video without signing in. Password-protected links
+ * ask for the password first; unknown, revoked and expired links show the server's message.
+ * Views, watch progress and downloads are reported to the video's analytics.
+ *
+ * @returns {JSX.Element} - The rendered shared video UI.
+ * @used_in: Automatically rendered by Next.js at the '/s/[token]' route.
+ */
+import React, { useEffect, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { DownloadIcon } from "lucide-react";
+import SharedVideoPlayer from "@/components/SharedVideoPlayer";
+import SharePasswordForm from "@/components/SharePasswordForm";
+import { getSharedVideo } from "@/lib/video-api-service";
+import type { SharedVideoDTO } from "@/lib/video-serializer";
+import { trackPlaybackEvent, watchPlayback } from "@/lib/playback-tracking";
+
+function SharedVideo() {
+  const { token } = useParams<{ token: string }>();
+  const [video, setVideo] = useState<SharedVideoDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  // open the link without a password; protected links answer with a password prompt
+  useEffect(() => {
+    let cancelled = false;
+    getSharedVideo(token)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.status === "ok") setVideo(result.video);
+        else setNeedsPassword(true);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to open share link");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // report views and watch progress once the player is on the page
+  useEffect(() => {
+    if (!video || !videoRef.current) return;
+    return watchPlayback(videoRef.current, token, video.access);
+  }, [video, token]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="alert alert-error max-w-md">{error}</div>
+      </div>
+    );
+  }
+
+  if (needsPassword) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <SharePasswordForm
+          token={token}
+          onUnlock={(unlocked) => {
+            setVideo(unlocked);
+            setNeedsPassword(false);
+          }}
+          onError={setError}
+        />
+      </div>
+    );
+  }
+
+  if (!video) {
+    return (
+      <div className="container mx-auto p-4 max-w-4xl">
+        <div className="skeleton aspect-video w-full"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 max-w-4xl">
+      <SharedVideoPlayer video={video} videoRef={videoRef} />
+      <div className="mt-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{video.title}</h1>
+          {video.description && <p className="text-gray-600 whitespace-pre-line">{video.description}</p>}
+        </div>
+        <a
+          href={video.downloadUrl}
+          className="btn btn-outline btn-sm shrink-0"
+          onClick={() => trackPlaybackEvent(token, video.access, "download")}
+        >
+          <DownloadIcon className="w-4 h-4" />
+          Download
+        </a>
+      </div>
+    </div>
+  );
+}
+
+export default SharedVideo;
@@ -0,0 +1,233 @@
+"use client";
+/*
+ * Branding Editor Component
+ * Edits the headline text, logo watermark and pad colour layered onto every social format,
+ * and saves them as the user's brand kit so they are applied automatically next time.
+ *
+ * @param {branding} - Branding currently applied on the page.
+ * @param {onChange} - Called with the edited branding.
+ * @param {onSaved} - Called with the branding once it is saved as the brand kit.
+ * @param {refreshKey} - Passed to the logo picker so new uploads show up.
+ * @used_in: The '/social-share' page, below the format picker.
+ */
+import React, { useState } from "react";
+import ImagePicker from "@/components/ImagePicker";
+import { saveBrandKit } from "@/lib/brand-kit-service";
+import {
+  BRAND_FONTS,
+  BRANDING_LIMITS,
+  DEFAULT_HEADLINE,
+  DEFAULT_LOGO,
+  DEFAULT_PAD_COLOR,
+  OVERLAY_POSITIONS,
+  type HeadlineOverlay,
+  type LogoOverlay,
+  type OverlayPosition,
+  type SocialBranding,
+} from "@/lib/social-branding";
+
+interface BrandingEditorProps {
+  branding: SocialBranding;
+  onChange: (branding: SocialBranding) => void;
+  onSaved: (branding: SocialBranding) => void;
+  refreshKey?: number;
+}
+
+/*
+ * Position <select> shared by the headline and logo sections.
+ */
+function PositionSelect({ value, onChange }: { value: OverlayPosition; onChange: (value: OverlayPosition) => void }) {
+  return (
+    <select
+      className="select select-bordered select-sm"
+      value={value}
+      onChange={(e) => onChange(e.target.value as OverlayPosition)}
+    >
+      {Object.entries(OVERLAY_POSITIONS).map(([position, label]) => (
+        <option key={position} value={position}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function BrandingEditor({ branding, onChange, onSaved, refreshKey = 0 }: BrandingEditorProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const { headline, logo, padColor } = branding;
+
+  const updateHeadline = (changes: Partial<HeadlineOverlay>) => {
+    if (headline) onChange({ ...branding, headline: { ...headline, ...changes } });
+  };
+
+  const updateLogo = (changes: Partial<LogoOverlay>) => {
+    if (logo) onChange({ ...branding, logo: { ...logo, ...changes } });
+  };
+
+  /*
+   * Saves the current branding as the brand kit through the API.
+   */
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSaved(await saveBrandKit(branding));
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="collapse collapse-arrow bg-base-200 mt-4">
+      <input type="checkbox" />
+      <div className="collapse-title font-medium">Branding</div>
+      <div className="collapse-content space-y-6">
+        <div>
+          <label className="flex items-center gap-2 cursor-pointer mb-2">
+            <input
+              type="checkbox"
+              className="toggle toggle-sm"
+              checked={headline !== null}
+              onChange={(e) => onChange({ ...branding, headline: e.target.checked ? DEFAULT_HEADLINE : null })}
+            />
+            <span className="font-medium text-sm">Headline</span>
+          </label>
+          {headline && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+              <label className="form-control col-span-2 md:col-span-4">
+                <span className="label-text text-xs mb-1">Text</span>
+                <input
+                  type="text"
+                  className="input input-bordered input-sm"
+                  placeholder="e.g. Summer sale"
+                  value={headline.text}
+                  maxLength={BRANDING_LIMITS.MAX_HEADLINE_LENGTH}
+                  onChange={(e) => updateHeadline({ text: e.target.value })}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Font</span>
+                <select
+                  className="select select-bordered select-sm"
+                  value={headline.fontFamily}
+                  onChange={(e) => updateHeadline({ fontFamily: e.target.value })}
+                >
+                  {BRAND_FONTS.map((font) => (
+                    <option key={font} value={font}>
+                      {font}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Size ({headline.fontSize}px)</span>
+                <input
+                  type="range"
+                  className="range range-xs range-primary"
+                  min={BRANDING_LIMITS.MIN_FONT_SIZE}
+                  max={BRANDING_LIMITS.MAX_FONT_SIZE}
+                  value={headline.fontSize}
+                  onChange={(e) => updateHeadline({ fontSize: Number(e.target.value) })}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Colour</span>
+                <input
+                  type="color"
+                  className="h-8 w-full cursor-pointer rounded"
+                  value={headline.color}
+                  onChange={(e) => updateHeadline({ color: e.target.value })}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Position</span>
+                <PositionSelect value={headline.position} onChange={(position) => updateHeadline({ position })} />
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <span className="font-medium text-sm block mb-2">Logo watermark</span>
+          <ImagePicker
+            selectedPublicId={logo?.publicId ?? null}
+            onSelect={(image) => onChange({ ...branding, logo: { ...DEFAULT_LOGO, ...logo, publicId: image.publicId } })}
+            refreshKey={refreshKey}
+          />
+          {logo && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end mt-2">
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Position</span>
+                <PositionSelect value={logo.position} onChange={(position) => updateLogo({ position })} />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Width ({Math.round(logo.scale * 100)}%)</span>
+                <input
+                  type="range"
+                  className="range range-xs range-primary"
+                  min={BRANDING_LIMITS.MIN_LOGO_SCALE * 100}
+                  max={BRANDING_LIMITS.MAX_LOGO_SCALE * 100}
+                  value={Math.round(logo.scale * 100)}
+                  onChange={(e) => updateLogo({ scale: Number(e.target.value) / 100 })}
+                />
+              </label>
+              <label className="form-control">
+                <span className="label-text text-xs mb-1">Opacity ({logo.opacity}%)</span>
+                <input
+                  type="range"
+                  className="range range-xs range-primary"
+                  min={1}
+                  max={100}
+                  value={logo.opacity}
+                  onChange={(e) => updateLogo({ opacity: Number(e.target.value) })}
+                />
+              </label>
+              <button
+                type="button"
+                className="btn btn-ghost btn-sm text-error"
+                onClick={() => onChange({ ...branding, logo: null })}
+              >
+                Remove logo
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 cursor-pointer mb-2">
+            <input
+              type="checkbox"
+              className="toggle toggle-sm"
+              checked={padColor !== null}
+              onChange={(e) => onChange({ ...branding, padColor: e.target.checked ? DEFAULT_PAD_COLOR : null })}
+            />
+            <span className="font-medium text-sm">Brand colour for padded formats</span>
+          </label>
+          {padColor && (
+            <input
+              type="color"
+              className="h-8 w-24 cursor-pointer rounded"
+              value={padColor}
+              onChange={(e) => onChange({ ...branding, padColor: e.target.value })}
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={handleSave}
+            disabled={isSaving || (headline !== null && !headline.text.trim())}
+          >
+            {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+            Save as brand kit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BrandingEditor;
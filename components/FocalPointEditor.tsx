@@ -0,0 +1,133 @@
+"use client";
+/*
+ * Focal Point Editor Component
+ * Shows the whole source image with the area each social format will keep.
+ * In manual mode the user clicks or drags to move the crop's centre; in auto mode
+ * Cloudinary's automatic gravity decides and the box is hidden.
+ *
+ * @param {image} - The source image (dimensions are needed to place the crop box).
+ * @param {spec} - The social format being edited.
+ * @param {focalPoint} - Current manual centre, or null for automatic gravity.
+ * @param {onChange} - Called with the new centre (or null for auto) once the user lets go.
+ * @used_in: The '/social-share' page.
+ */
+import React, { useRef, useState } from "react";
+import { CldImage } from "next-cloudinary";
+import type { ImageRecord } from "@/lib/image-api-service";
+import { getManualCropRect, type FocalPoint, type SocialFormatSpec } from "@/lib/social-formats";
+
+interface FocalPointEditorProps {
+  image: ImageRecord;
+  spec: SocialFormatSpec;
+  focalPoint: FocalPoint | null;
+  onChange: (focalPoint: FocalPoint | null) => void;
+}
+
+const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+function FocalPointEditor({ image, spec, focalPoint, onChange }: FocalPointEditorProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  // position while dragging, committed through onChange on release
+  const [dragPoint, setDragPoint] = useState<FocalPoint | null>(null);
+
+  const isManual = focalPoint !== null;
+  const point = dragPoint ?? focalPoint ?? CENTER;
+  const rect = getManualCropRect(image, spec, point);
+
+  /*
+   * Converts a pointer position into fractions of the displayed image.
+   */
+  const toFocalPoint = (event: React.PointerEvent): FocalPoint | null => {
+    const bounds = containerRef.current?.getBoundingClientRect();
+    if (!bounds) return null;
+    const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+    return {
+      x: clamp((event.clientX - bounds.left) / bounds.width),
+      y: clamp((event.clientY - bounds.top) / bounds.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (!isManual) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragPoint(toFocalPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (dragPoint) setDragPoint(toFocalPoint(event));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragPoint) return;
+    onChange(dragPoint);
+    setDragPoint(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Crop</h3>
+        <div className="join">
+          <button
+            type="button"
+            className={`btn btn-sm join-item ${!isManual ? "btn-active" : ""}`}
+            onClick={() => onChange(null)}
+          >
+            Auto
+          </button>
+          <button
+            type="button"
+            className={`btn btn-sm join-item ${isManual ? "btn-active" : ""}`}
+            onClick={() => !isManual && onChange(CENTER)}
+          >
+            Manual
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={`relative select-none touch-none ${isManual ? "cursor-crosshair" : ""}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <CldImage
+          src={image.publicId}
+          width={image.width}
+          height={image.height}
+          sizes="(max-width: 768px) 100vw, 640px"
+          alt="source image"
+          draggable={false}
+          className="w-full h-auto rounded"
+        />
+        {isManual && (
+          <>
+            {/* kept area */}
+            <div
+              className="absolute border-2 border-primary pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+              style={{
+                left: `${(rect.x / image.width) * 100}%`,
+                top: `${(rect.y / image.height) * 100}%`,
+                width: `${(rect.width / image.width) * 100}%`,
+                height: `${(rect.height / image.height) * 100}%`,
+              }}
+            />
+            {/* focal point */}
+            <div
+              className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-primary pointer-events-none"
+              style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        {isManual
+          ? `Click or drag to move the crop. Keeps ${rect.width}×${rect.height}px from (${rect.x}, ${rect.y}).`
+          : "Cloudinary picks the most important area automatically."}
+      </p>
+    </div>
+  );
+}
+
+export default FocalPointEditor;
@@ -0,0 +1,108 @@
+"use client";
+/*
+ * Image Picker Component
+ * Lists the user's previously uploaded images so one can be reused instead of uploading again.
+ *
+ * @param {selectedPublicId} - Public ID of the image currently in use (highlighted).
+ * @param {onSelect} - Called with the chosen image's record.
+ * @param {refreshKey} - Change it to reload the list (e.g. after a new upload).
+ * @used_in: The '/social-share' page.
+ */
+import React, { useEffect, useState } from "react";
+import { CldImage } from "next-cloudinary";
+import { getImages, type ImageRecord } from "@/lib/image-api-service";
+
+interface ImagePickerProps {
+  selectedPublicId: string | null;
+  onSelect: (image: ImageRecord) => void;
+  refreshKey?: number;
+}
+
+function ImagePicker({ selectedPublicId, onSelect, refreshKey = 0 }: ImagePickerProps) {
+  const [images, setImages] = useState<ImageRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // (re)load the first page whenever refreshKey changes
+  useEffect(() => {
+    let cancelled = false;
+    getImages()
+      .then((page) => {
+        if (cancelled) return;
+        setImages(page.images);
+        setNextCursor(page.nextCursor);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load images");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  /*
+   * Appends the next page of images.
+   */
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      const page = await getImages(nextCursor);
+      setImages((prev) => [...prev, ...page.images]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError((err as Error).message || "Failed to load images");
+    }
+  };
+
+  if (isLoading) {
+    return <span className="loading loading-spinner loading-md"></span>;
+  }
+
+  if (error) {
+    return <div className="text-sm text-error">{error}</div>;
+  }
+
+  if (images.length === 0) {
+    return <div className="text-sm text-gray-500">No previous uploads yet.</div>;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+        {images.map((image) => (
+          <button
+            key={image.id}
+            type="button"
+            title={`${image.width}×${image.height} ${image.format.toUpperCase()}`}
+            className={`rounded-lg overflow-hidden border-2 ${
+              image.publicId === selectedPublicId ? "border-primary" : "border-transparent hover:border-base-300"
+            }`}
+            onClick={() => onSelect(image)}
+          >
+            <CldImage
+              src={image.publicId}
+              width={160}
+              height={160}
+              crop="fill"
+              gravity="auto"
+              alt="previous upload"
+              className="w-full h-auto aspect-square object-cover"
+            />
+          </button>
+        ))}
+      </div>
+      {nextCursor && (
+        <button type="button" className="btn btn-ghost btn-sm mt-2" onClick={loadMore}>
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default ImagePicker;
@@ -0,0 +1,139 @@
+"use client";
+/*
+ * Poster Picker Component
+ * Offers frames at evenly spaced timestamps as the video's poster, or a custom image uploaded
+ * into the image library. The choice is saved on the video and used by the library card and player.
+ *
+ * @param {video} - The video whose poster is being chosen.
+ * @param {onChange} - Called with the updated video after the choice is saved.
+ * @used_in: The video detail page at /videos/[id].
+ */
+import React, { useState } from "react";
+import { CheckIcon, ImageUpIcon, RotateCcwIcon } from "lucide-react";
+import { updateVideo } from "@/lib/video-api-service";
+import { uploadImage } from "@/lib/image-api-service";
+import type { VideoDTO } from "@/lib/video-serializer";
+import { getPosterCandidateOffsets, getVideoPosterUrl, getVideoThumbnailUrl } from "@/lib/video-urls";
+import { formatDuration } from "@/lib/upload-utils";
+
+interface PosterPickerProps {
+  video: VideoDTO;
+  onChange: (video: VideoDTO) => void;
+}
+
+function PosterPicker({ video, onChange }: PosterPickerProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const offsets = getPosterCandidateOffsets(video.duration);
+  const hasChoice = video.posterOffset !== null || video.posterPublicId !== null;
+
+  /*
+   * Saves a poster change and hands the updated video back to the page.
+   */
+  const save = async (changes: { posterOffset?: number | null; posterPublicId?: string | null }) => {
+    setIsSaving(true);
+    try {
+      onChange(await updateVideo(video.id, changes));
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /*
+   * Uploads the picked file to the image library, then makes it the poster.
+   */
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setIsSaving(true);
+    try {
+      const image = await uploadImage(file);
+      onChange(await updateVideo(video.id, { posterPublicId: image.publicId }));
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 mt-6">
+      <div className="card-body">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="card-title">Poster</h2>
+          <div className="flex gap-2">
+            {hasChoice && (
+              <button
+                className="btn btn-ghost btn-sm"
+                onClick={() => save({ posterOffset: null, posterPublicId: null })}
+                disabled={isSaving}
+              >
+                <RotateCcwIcon className="w-4 h-4" />
+                Automatic
+              </button>
+            )}
+            <label className={`btn btn-outline btn-sm ${isSaving ? "btn-disabled" : ""}`}>
+              {isSaving ? (
+                <span className="loading loading-spinner loading-sm"></span>
+              ) : (
+                <ImageUpIcon className="w-4 h-4" />
+              )}
+              Upload custom
+              <input type="file" accept="image/*" className="hidden" onChange={handleUpload} disabled={isSaving} />
+            </label>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">
+          Shown in the library and before playback starts. Pick a frame or upload your own image.
+        </p>
+
+        {video.posterPublicId && (
+          <div className="flex items-center gap-3">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={getVideoPosterUrl(video, 320, 180)}
+              alt="Custom poster"
+              className="w-40 aspect-video object-cover rounded ring-2 ring-primary"
+            />
+            <span className="badge badge-primary badge-sm">custom poster</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {offsets.map((offset) => {
+            const isSelected = !video.posterPublicId && video.posterOffset === offset;
+            return (
+              <button
+                key={offset}
+                type="button"
+                className={`relative rounded overflow-hidden ring-2 ${isSelected ? "ring-primary" : "ring-transparent hover:ring-base-content/30"}`}
+                onClick={() => save({ posterOffset: offset })}
+                disabled={isSaving || isSelected}
+                aria-label={`Use the frame at ${formatDuration(offset)}`}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={getVideoThumbnailUrl(video.publicId, 320, 180, offset)}
+                  alt={`Frame at ${formatDuration(offset)}`}
+                  loading="lazy"
+                  className="w-full aspect-video object-cover"
+                />
+                <span className="absolute bottom-1 right-1 badge badge-neutral badge-xs">{formatDuration(offset)}</span>
+                {isSelected && (
+                  <span className="absolute top-1 right-1 badge badge-primary badge-xs">
+                    <CheckIcon className="w-3 h-3" />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PosterPicker;
@@ -0,0 +1,80 @@
+"use client";
+/*
+ * Resize Mode Picker Component
+ * Shows the current format rendered with every resize mode side by side so the user can
+ * compare cropping, padding and generative fill before choosing one. Generative fill is a paid
+ * transformation, so its preview is only rendered once the user picks it.
+ *
+ * @param {publicId} - Cloudinary public ID of the source image.
+ * @param {spec} - The social format being edited.
+ * @param {layout} - The format's current layout (its mode is highlighted).
+ * @param {branding} - Branding layered onto the previews, so they match the download.
+ * @param {onSelect} - Called with the chosen mode.
+ * @used_in: The '/social-share' page.
+ */
+import React from "react";
+import { CldImage } from "next-cloudinary";
+import { SparklesIcon } from "lucide-react";
+import {
+  RESIZE_MODES,
+  getSocialTransformation,
+  type ResizeMode,
+  type SocialFormatSpec,
+  type SocialLayout,
+} from "@/lib/social-formats";
+import type { SocialBranding } from "@/lib/social-branding";
+
+interface ResizeModePickerProps {
+  publicId: string;
+  spec: SocialFormatSpec;
+  layout: SocialLayout;
+  branding: SocialBranding;
+  onSelect: (mode: ResizeMode) => void;
+}
+
+// previews are small, so a lossy format keeps them quick to load
+const PREVIEW_OUTPUT = { format: "webp", quality: "auto" } as const;
+
+// modes whose transformation costs extra credits; they get a placeholder until chosen
+const PAID_MODES: ResizeMode[] = ["generative"];
+
+function ResizeModePicker({ publicId, spec, layout, branding, onSelect }: ResizeModePickerProps) {
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2">Fit</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {(Object.keys(RESIZE_MODES) as ResizeMode[]).map((mode) => (
+          <button
+            key={mode}
+            type="button"
+            onClick={() => onSelect(mode)}
+            title={RESIZE_MODES[mode].description}
+            className={`flex flex-col items-center gap-1 p-2 rounded-lg border-2 ${
+              layout.mode === mode ? "border-primary bg-base-200" : "border-transparent hover:bg-base-200"
+            }`}
+          >
+            <div className="w-full h-32 flex items-center justify-center">
+              {PAID_MODES.includes(mode) && layout.mode !== mode ? (
+                <div className="flex flex-col items-center gap-1 text-base-content/60">
+                  <SparklesIcon className="w-8 h-8" />
+                  <span className="text-xs">Click to preview</span>
+                </div>
+              ) : (
+                <CldImage
+                  src={publicId}
+                  sizes="200px"
+                  alt={RESIZE_MODES[mode].label}
+                  className="max-h-32 w-auto object-contain"
+                  {...getSocialTransformation(spec, PREVIEW_OUTPUT, { ...layout, mode }, branding)}
+                />
+              )}
+            </div>
+            <span className="text-xs font-medium">{RESIZE_MODES[mode].label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default ResizeModePicker;
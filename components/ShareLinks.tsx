@@ -0,0 +1,200 @@
+"use client";
+/*
+ * Share Links Component
+ * Creates public links to a video that play it without signing in, each with an optional expiry
+ * and password, and lists existing links so they (or their embed code) can be copied or revoked.
+ *
+ * @param {video} - The video being shared.
+ * @used_in: The video detail page at /videos/[id].
+ */
+import React, { useEffect, useState } from "react";
+import { CheckIcon, CodeIcon, CopyIcon, LinkIcon, LockIcon } from "lucide-react";
+import { createShareLink, getShareLinks, revokeShareLink } from "@/lib/video-api-service";
+import type { ShareLinkDTO, VideoDTO } from "@/lib/video-serializer";
+import { SHARE_LINK_EXPIRY_OPTIONS, SHARE_LINK_LIMITS, type ShareLinkStatus } from "@/lib/share-links";
+import { getEmbedIframeHtml, getEmbedSize } from "@/lib/oembed";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_BADGES: Record<ShareLinkStatus, string> = {
+  active: "badge-success",
+  expired: "badge-warning",
+  revoked: "badge-ghost",
+};
+
+/*
+ * Public URL of a link on the current origin.
+ */
+function getShareUrl(link: ShareLinkDTO): string {
+  return `${window.location.origin}/s/${link.token}`;
+}
+
+/*
+ * iframe markup of a link's embed player at the default size.
+ */
+function getEmbedCode(link: ShareLinkDTO, video: VideoDTO): string {
+  const { width, height } = getEmbedSize(video);
+  return getEmbedIframeHtml(`${window.location.origin}/embed/${link.token}`, width, height, video.title);
+}
+
+function ShareLinks({ video }: { video: VideoDTO }) {
+  const [links, setLinks] = useState<ShareLinkDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [password, setPassword] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);  // "<link id>:<url|embed>" of the last copy
+
+  // load the links whenever the video changes
+  useEffect(() => {
+    let cancelled = false;
+    getShareLinks(video.id)
+      .then((result) => {
+        if (!cancelled) setLinks(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load share links");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(video.id, {
+        expiresAt: expiryDays === null ? null : new Date(Date.now() + expiryDays * DAY_MS).toISOString(),
+        password: password || null,
+      });
+      setLinks((prev) => [link, ...prev]);
+      setPassword("");
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: ShareLinkDTO, kind: "url" | "embed") => {
+    const text = kind === "url" ? getShareUrl(link) : getEmbedCode(link, video);
+    const key = `${link.id}:${kind}`;
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied((current) => (current === key ? null : current)), 2000);
+    } catch (err) {
+      console.log(err);
+      prompt("Copy this:", text);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkDTO) => {
+    if (!confirm("Revoke this link? Anyone who has it will no longer be able to watch the video.")) return;
+    try {
+      const revoked = await revokeShareLink(video.id, link.id);
+      setLinks((prev) => prev.map((item) => (item.id === revoked.id ? revoked : item)));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 mt-6">
+      <div className="card-body">
+        <h2 className="card-title">Share</h2>
+        <p className="text-sm text-gray-500">Anyone with an active link can watch this video without signing in.</p>
+
+        <form onSubmit={handleCreate} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">Expires after</span>
+            <select
+              className="select select-bordered select-sm"
+              value={expiryDays ?? ""}
+              onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+            >
+              {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.days ?? ""}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-control flex-1">
+            <span className="label-text text-xs mb-1">Password (optional)</span>
+            <input
+              type="password"
+              className="input input-bordered input-sm"
+              value={password}
+              minLength={SHARE_LINK_LIMITS.MIN_PASSWORD_LENGTH}
+              maxLength={SHARE_LINK_LIMITS.MAX_PASSWORD_LENGTH}
+              autoComplete="new-password"
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </label>
+          <button type="submit" className="btn btn-primary btn-sm" disabled={isCreating}>
+            {isCreating ? (
+              <span className="loading loading-spinner loading-sm"></span>
+            ) : (
+              <LinkIcon className="w-4 h-4" />
+            )}
+            Create link
+          </button>
+        </form>
+
+        {error && <div className="text-sm text-error">{error}</div>}
+
+        {isLoading ? (
+          <div className="skeleton h-16 w-full mt-4"></div>
+        ) : links.length > 0 && (
+          <table className="table table-sm mt-4">
+            <tbody>
+              {links.map((link) => (
+                <tr key={link.id} className={link.status === "active" ? "" : "opacity-60"}>
+                  <td className="font-mono text-xs break-all">
+                    /s/{link.token}
+                    {link.hasPassword && <LockIcon className="w-3 h-3 inline ml-1" aria-label="Password protected" />}
+                  </td>
+                  <td>
+                    <span className={`badge badge-sm ${STATUS_BADGES[link.status]}`}>{link.status}</span>
+                  </td>
+                  <td className="text-gray-500 whitespace-nowrap">
+                    {link.revokedAt
+                      ? `Revoked ${new Date(link.revokedAt).toLocaleDateString()}`
+                      : link.expiresAt
+                        ? `${link.status === "expired" ? "Expired" : "Expires"} ${new Date(link.expiresAt).toLocaleString()}`
+                        : "Never expires"}
+                  </td>
+                  <td className="text-right whitespace-nowrap">
+                    {link.status === "active" && (
+                      <>
+                        <button className="btn btn-ghost btn-xs" onClick={() => handleCopy(link, "url")}>
+                          {copied === `${link.id}:url` ? <CheckIcon className="w-3 h-3" /> : <CopyIcon className="w-3 h-3" />}
+                          {copied === `${link.id}:url` ? "Copied" : "Copy"}
+                        </button>
+                        <button className="btn btn-ghost btn-xs" onClick={() => handleCopy(link, "embed")}>
+                          {copied === `${link.id}:embed` ? <CheckIcon className="w-3 h-3" /> : <CodeIcon className="w-3 h-3" />}
+                          {copied === `${link.id}:embed` ? "Copied" : "Embed"}
+                        </button>
+                        <button className="btn btn-ghost btn-xs text-error" onClick={() => handleRevoke(link)}>
+                          Revoke
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ShareLinks;
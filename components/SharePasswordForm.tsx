@@ -0,0 +1,81 @@
+"use client";
+/*
+ * Share Password Form Component
+ * Asks a visitor for the password of a protected share link and opens the link with it.
+ *
+ * @param {token} - Token of the share link.
+ * @param {onUnlock} - Called with the video once the right password was entered.
+ * @param {onError} - Called with the server's message when the link can't be opened at all
+ *                    (revoked or expired in the meantime).
+ * @param {compact} - Smaller layout without the explanation, for the embed player.
+ * @used_in: The public share page (/s/[token]) and the embed player (/embed/[token]).
+ */
+import React, { useState } from "react";
+import { LockIcon } from "lucide-react";
+import { getSharedVideo } from "@/lib/video-api-service";
+import type { SharedVideoDTO } from "@/lib/video-serializer";
+
+interface SharePasswordFormProps {
+  token: string;
+  onUnlock: (video: SharedVideoDTO) => void;
+  onError: (message: string) => void;
+  compact?: boolean;
+}
+
+function SharePasswordForm({ token, onUnlock, onError, compact = false }: SharePasswordFormProps) {
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setPasswordError(null);
+    try {
+      const result = await getSharedVideo(token, password);
+      if (result.status === "ok") {
+        onUnlock(result.video);
+      } else {
+        setPasswordError(result.error ?? "Wrong password");
+      }
+    } catch (err) {
+      onError((err as Error).message || "Failed to open share link");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleUnlock} className="card bg-base-200 w-full max-w-sm">
+      <div className={`card-body ${compact ? "p-4 space-y-2" : "space-y-3"}`}>
+        <h1 className={`card-title ${compact ? "text-base" : ""}`}>
+          <LockIcon className="w-5 h-5" />
+          Password required
+        </h1>
+        {!compact && (
+          <p className="text-sm text-gray-500">Enter the password you were given to watch this video.</p>
+        )}
+        <input
+          type="password"
+          className={`input input-bordered w-full ${compact ? "input-sm" : ""}`}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoFocus={!compact}
+          required
+          disabled={isUnlocking}
+        />
+        {passwordError && <div className="text-sm text-error">{passwordError}</div>}
+        <button
+          type="submit"
+          className={`btn btn-primary ${compact ? "btn-sm" : ""}`}
+          disabled={isUnlocking || !password}
+        >
+          {isUnlocking && <span className="loading loading-spinner loading-sm"></span>}
+          Watch
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default SharePasswordForm;
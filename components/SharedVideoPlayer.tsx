@@ -0,0 +1,40 @@
+"use client";
+/*
+ * Shared Video Player Component
+ * Plays a shared video from the media URLs of the share API. The Cloudinary player needs the
+ * video's public id, which visitors don't get, so this is a plain video element playing the
+ * progressive MP4 streamed through /api/share/[token]/media.
+ *
+ * @param {video} - The shared video (media URLs, size and subtitle tracks).
+ * @param {videoRef} - Optional ref receiving the video element (e.g. for playback tracking).
+ * @used_in: The public share page (/s/[token]) and the embed player (/embed/[token]).
+ */
+import React, { type MutableRefObject } from "react";
+import type { SharedVideoDTO } from "@/lib/video-serializer";
+
+interface SharedVideoPlayerProps {
+  video: SharedVideoDTO;
+  videoRef?: MutableRefObject<HTMLVideoElement | null>;
+}
+
+function SharedVideoPlayer({ video, videoRef }: SharedVideoPlayerProps) {
+  return (
+    <video
+      ref={videoRef}
+      src={video.videoUrl}
+      poster={video.posterUrl}
+      width={video.width || 1920}
+      height={video.height || 1080}
+      controls
+      playsInline
+      preload="metadata"
+      className="w-full h-auto max-h-screen rounded-lg bg-black"
+    >
+      {video.subtitles.map(({ language, label, url }, index) => (
+        <track key={language} kind="subtitles" src={url} srcLang={language} label={label} default={index === 0} />
+      ))}
+    </video>
+  );
+}
+
+export default SharedVideoPlayer;
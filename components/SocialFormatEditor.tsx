@@ -0,0 +1,200 @@
+"use client";
+/*
+ * Social Format Editor Component
+ * Lets the user define custom output sizes (width, height, aspect ratio) and manage saved ones.
+ *
+ * @param {presets} - The user's saved custom formats.
+ * @param {onCreated} - Called with a newly saved preset.
+ * @param {onDeleted} - Called with the id of a deleted preset.
+ * @used_in: The '/social-share' page, next to the format <select>.
+ */
+import React, { useState } from "react";
+import { Trash2Icon } from "lucide-react";
+import { COMMON_ASPECT_RATIOS, SOCIAL_PRESET_LIMITS, toAspectRatio } from "@/lib/social-formats";
+import {
+  createSocialPreset,
+  deleteSocialPreset,
+  type SocialPreset,
+} from "@/lib/social-preset-service";
+
+interface SocialFormatEditorProps {
+  presets: SocialPreset[];
+  onCreated: (preset: SocialPreset) => void;
+  onDeleted: (id: string) => void;
+}
+
+const FREE_ASPECT = "free";
+
+/*
+ * Splits "w:h" into its two numbers.
+ */
+function parseRatio(ratio: string): [number, number] {
+  const [w, h] = ratio.split(":").map(Number);
+  return [w, h];
+}
+
+function SocialFormatEditor({ presets, onCreated, onDeleted }: SocialFormatEditorProps) {
+  const [name, setName] = useState("");
+  const [width, setWidth] = useState(1080);
+  const [height, setHeight] = useState(1080);
+  const [aspect, setAspect] = useState<string>(FREE_ASPECT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { MIN_DIMENSION, MAX_DIMENSION, MAX_NAME_LENGTH } = SOCIAL_PRESET_LIMITS;
+
+  /*
+   * Keeps the other side in proportion when an aspect ratio is locked.
+   */
+  const handleWidthChange = (value: number) => {
+    setWidth(value);
+    if (aspect !== FREE_ASPECT && value > 0) {
+      const [w, h] = parseRatio(aspect);
+      setHeight(Math.round((value * h) / w));
+    }
+  };
+
+  const handleHeightChange = (value: number) => {
+    setHeight(value);
+    if (aspect !== FREE_ASPECT && value > 0) {
+      const [w, h] = parseRatio(aspect);
+      setWidth(Math.round((value * w) / h));
+    }
+  };
+
+  const handleAspectChange = (value: string) => {
+    setAspect(value);
+    if (value !== FREE_ASPECT) {
+      const [w, h] = parseRatio(value);
+      setHeight(Math.round((width * h) / w));
+    }
+  };
+
+  /*
+   * Saves the preset through the API and hands it to the parent.
+   */
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const preset = await createSocialPreset({ name: name.trim(), width, height });
+      onCreated(preset);
+      setName("");
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: SocialPreset) => {
+    if (!confirm(`Delete the custom format "${preset.name}"?`)) return;
+    try {
+      await deleteSocialPreset(preset.id);
+      onDeleted(preset.id);
+    } catch (error) {
+      alert((error as Error).message);
+    }
+  };
+
+  const dimensionsValid =
+    Number.isInteger(width) && Number.isInteger(height) &&
+    width >= MIN_DIMENSION && width <= MAX_DIMENSION &&
+    height >= MIN_DIMENSION && height <= MAX_DIMENSION;
+
+  return (
+    <div className="collapse collapse-arrow bg-base-200 mt-4">
+      <input type="checkbox" />
+      <div className="collapse-title font-medium">Custom formats</div>
+      <div className="collapse-content">
+        <form onSubmit={handleSave} className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+          <label className="form-control col-span-2">
+            <span className="label-text text-xs mb-1">Name</span>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              placeholder="e.g. Newsletter banner"
+              value={name}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">Width</span>
+            <input
+              type="number"
+              className="input input-bordered input-sm"
+              min={MIN_DIMENSION}
+              max={MAX_DIMENSION}
+              value={width}
+              onChange={(e) => handleWidthChange(Number(e.target.value))}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">Height</span>
+            <input
+              type="number"
+              className="input input-bordered input-sm"
+              min={MIN_DIMENSION}
+              max={MAX_DIMENSION}
+              value={height}
+              onChange={(e) => handleHeightChange(Number(e.target.value))}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">Aspect ratio</span>
+            <select
+              className="select select-bordered select-sm"
+              value={aspect}
+              onChange={(e) => handleAspectChange(e.target.value)}
+            >
+              <option value={FREE_ASPECT}>Free</option>
+              {COMMON_ASPECT_RATIOS.map((ratio) => (
+                <option key={ratio} value={ratio}>
+                  {ratio}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="col-span-2 md:col-span-5 flex items-center justify-between">
+            <span className="text-xs text-gray-500">
+              {dimensionsValid ? `${width}×${height} (${toAspectRatio(width, height)})` : `Use ${MIN_DIMENSION}–${MAX_DIMENSION}px`}
+            </span>
+            <button
+              type="submit"
+              className="btn btn-primary btn-sm"
+              disabled={isSaving || !name.trim() || !dimensionsValid}
+            >
+              Save format
+            </button>
+          </div>
+        </form>
+
+        {presets.length > 0 && (
+          <ul className="mt-4 divide-y divide-base-300">
+            {presets.map((preset) => (
+              <li key={preset.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  {preset.name}{" "}
+                  <span className="text-gray-500">
+                    {preset.width}×{preset.height} ({preset.aspectRatio})
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-xs text-error"
+                  onClick={() => handleDelete(preset)}
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  <Trash2Icon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SocialFormatEditor;
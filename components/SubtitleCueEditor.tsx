@@ -0,0 +1,190 @@
+"use client";
+/*
+ * Subtitle Cue Editor Component
+ * Table of a track's cues with editable start/end timestamps and text. Rows can be added and
+ * removed; invalid timestamps are flagged and block saving. The server validates again on save.
+ *
+ * @param {track} - The subtitle track being edited.
+ * @param {onSave} - Called with the edited cues; resolves once they are saved.
+ * @param {onCancel} - Closes the editor without saving.
+ * @used_in: The subtitles panel (VideoSubtitles) on the video detail page.
+ */
+import React, { useState } from "react";
+import { PlusIcon, Trash2Icon } from "lucide-react";
+import type { SubtitleTrackDTO } from "@/lib/video-serializer";
+import { SUBTITLE_LIMITS, formatTimestamp, parseTimestamp, type SubtitleCue } from "@/lib/subtitles";
+
+interface SubtitleCueEditorProps {
+  track: SubtitleTrackDTO;
+  onSave: (cues: SubtitleCue[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+/*
+ * Cue being edited: timestamps stay text until saved so partial input can be typed.
+ */
+interface DraftCue {
+  key: number;
+  start: string;
+  end: string;
+  text: string;
+}
+
+// default length of a cue added with "Add cue"
+const NEW_CUE_DURATION = 2;
+
+function SubtitleCueEditor({ track, onSave, onCancel }: SubtitleCueEditorProps) {
+  const [nextKey, setNextKey] = useState(track.cues.length);
+  const [drafts, setDrafts] = useState<DraftCue[]>(() =>
+    track.cues.map((cue, index) => ({
+      key: index,
+      start: formatTimestamp(cue.start),
+      end: formatTimestamp(cue.end),
+      text: cue.text,
+    }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  /*
+   * Returns the cue with parsed times, or null while any field is invalid.
+   */
+  const toCue = (draft: DraftCue): SubtitleCue | null => {
+    const start = parseTimestamp(draft.start);
+    const end = parseTimestamp(draft.end);
+    if (start === null || end === null || end <= start || !draft.text.trim()) return null;
+    return { start, end, text: draft.text.trim() };
+  };
+
+  const cues = drafts.map(toCue);
+  const invalidCount = cues.filter((cue) => cue === null).length;
+
+  const updateDraft = (key: number, changes: Partial<DraftCue>) => {
+    setDrafts((prev) => prev.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft)));
+  };
+
+  /*
+   * Appends a cue starting where the last one ends.
+   */
+  const addCue = () => {
+    const lastEnd = drafts.length > 0 ? parseTimestamp(drafts[drafts.length - 1].end) ?? 0 : 0;
+    setDrafts((prev) => [
+      ...prev,
+      {
+        key: nextKey,
+        start: formatTimestamp(lastEnd),
+        end: formatTimestamp(lastEnd + NEW_CUE_DURATION),
+        text: "",
+      },
+    ]);
+    setNextKey((key) => key + 1);
+  };
+
+  const handleSave = async () => {
+    if (invalidCount > 0 || cues.length === 0) return;
+    setIsSaving(true);
+    try {
+      await onSave(cues as SubtitleCue[]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-96 overflow-y-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Start</th>
+              <th>End</th>
+              <th className="w-full">Text</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, index) => {
+              const start = parseTimestamp(draft.start);
+              const end = parseTimestamp(draft.end);
+              return (
+                <tr key={draft.key}>
+                  <td className="text-gray-500">{index + 1}</td>
+                  <td>
+                    <input
+                      type="text"
+                      className={`input input-bordered input-xs w-28 font-mono ${start === null ? "input-error" : ""}`}
+                      value={draft.start}
+                      onChange={(e) => updateDraft(draft.key, { start: e.target.value })}
+                      aria-label={`Start of cue ${index + 1}`}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className={`input input-bordered input-xs w-28 font-mono ${
+                        end === null || (start !== null && end <= start) ? "input-error" : ""
+                      }`}
+                      value={draft.end}
+                      onChange={(e) => updateDraft(draft.key, { end: e.target.value })}
+                      aria-label={`End of cue ${index + 1}`}
+                    />
+                  </td>
+                  <td>
+                    <textarea
+                      className={`textarea textarea-bordered textarea-xs w-full ${!draft.text.trim() ? "textarea-error" : ""}`}
+                      rows={Math.min(draft.text.split("\n").length, 3)}
+                      maxLength={SUBTITLE_LIMITS.MAX_CUE_LENGTH}
+                      value={draft.text}
+                      onChange={(e) => updateDraft(draft.key, { text: e.target.value })}
+                      aria-label={`Text of cue ${index + 1}`}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      className="btn btn-ghost btn-xs text-error"
+                      onClick={() => setDrafts((prev) => prev.filter((item) => item.key !== draft.key))}
+                      aria-label={`Remove cue ${index + 1}`}
+                    >
+                      <Trash2Icon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className="btn btn-ghost btn-sm"
+          onClick={addCue}
+          disabled={drafts.length >= SUBTITLE_LIMITS.MAX_CUES}
+        >
+          <PlusIcon className="w-4 h-4" />
+          Add cue
+        </button>
+        <span className="text-xs text-gray-500 flex-1">
+          Times as hh:mm:ss.mmm.{" "}
+          {invalidCount > 0 && <span className="text-error">{invalidCount} cue(s) need fixing.</span>}
+        </span>
+        <button type="button" className="btn btn-ghost btn-sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={handleSave}
+          disabled={isSaving || invalidCount > 0 || drafts.length === 0}
+        >
+          {isSaving && <span className="loading loading-spinner loading-sm"></span>}
+          Save cues
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SubtitleCueEditor;
@@ -0,0 +1,81 @@
+"use client";
+/*
+ * Usage Meter Component
+ * Shows the user's plan with how much of its storage and monthly uploads is used.
+ * Bars turn yellow from 80% and red once the limit is reached.
+ *
+ * @param {refreshKey} - Any value; the usage is reloaded when it changes (e.g. after navigating away from an upload).
+ * @used_in: The sidebar of the app layout.
+ */
+import React, { useEffect, useState } from "react";
+import { getUsageSummary } from "@/lib/usage-service";
+import type { UsageSummary } from "@/lib/plans";
+import { formatFileSize } from "@/lib/upload-utils";
+
+/*
+ * daisyUI progress colour for a usage ratio.
+ */
+function getProgressClass(used: number, limit: number): string {
+  const ratio = limit > 0 ? used / limit : 1;
+  if (ratio >= 1) return "progress-error";
+  if (ratio >= 0.8) return "progress-warning";
+  return "progress-primary";
+}
+
+function UsageMeter({ refreshKey }: { refreshKey?: unknown }) {
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+
+  // reload whenever the refresh key changes
+  useEffect(() => {
+    let cancelled = false;
+    getUsageSummary()
+      .then((result) => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch((err) => console.log(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  if (!summary) return null;
+
+  const { limits, usage } = summary;
+
+  return (
+    <div className="px-4 pb-2 text-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Usage</span>
+        <span className="badge badge-outline badge-sm">{summary.planLabel} plan</span>
+      </div>
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>Storage</span>
+          <span>
+            {formatFileSize(usage.storageBytes)} / {formatFileSize(limits.storageBytes)}
+          </span>
+        </div>
+        <progress
+          className={`progress w-full ${getProgressClass(usage.storageBytes, limits.storageBytes)}`}
+          value={Math.min(usage.storageBytes, limits.storageBytes)}
+          max={limits.storageBytes}
+        />
+      </div>
+      <div>
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>Uploads this month</span>
+          <span>
+            {usage.monthlyUploads} / {limits.monthlyUploads}
+          </span>
+        </div>
+        <progress
+          className={`progress w-full ${getProgressClass(usage.monthlyUploads, limits.monthlyUploads)}`}
+          value={Math.min(usage.monthlyUploads, limits.monthlyUploads)}
+          max={limits.monthlyUploads}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default UsageMeter;
@@ -0,0 +1,118 @@
+"use client";
+/*
+ * Video Analytics Component
+ * Views, average watch percentage and downloads of a video through its share links and embeds,
+ * with a daily views chart and the sites viewers came from. Bot and repeated events are not counted.
+ *
+ * @param {videoId} - Id of the video.
+ * @used_in: The video detail page at /videos/[id].
+ */
+import React, { useEffect, useState } from "react";
+import { getVideoAnalytics } from "@/lib/video-api-service";
+import type { VideoAnalytics as VideoAnalyticsData } from "@/lib/playback-analytics";
+
+const PERIODS = [7, 30, 90];
+
+function VideoAnalytics({ videoId }: { videoId: string }) {
+  const [days, setDays] = useState(30);
+  const [analytics, setAnalytics] = useState<VideoAnalyticsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // reload whenever the video or the period changes
+  useEffect(() => {
+    let cancelled = false;
+    getVideoAnalytics(videoId, days)
+      .then((result) => {
+        if (!cancelled) {
+          setAnalytics(result);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load analytics");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, days]);
+
+  const maxDailyViews = Math.max(1, ...(analytics?.daily.map((day) => day.views) ?? []));
+
+  return (
+    <div className="card bg-base-200 mt-6">
+      <div className="card-body">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="card-title">Analytics</h2>
+          <div className="join">
+            {PERIODS.map((period) => (
+              <button
+                key={period}
+                className={`btn btn-xs join-item ${days === period ? "btn-active" : ""}`}
+                onClick={() => setDays(period)}
+              >
+                {period} days
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500">Counted from share links and embeds; your own library plays are not included.</p>
+
+        {error && <div className="text-sm text-error">{error}</div>}
+
+        {!analytics ? (
+          !error && <div className="skeleton h-32 w-full"></div>
+        ) : (
+          <>
+            <div className="stats stats-vertical sm:stats-horizontal bg-base-100">
+              <div className="stat">
+                <div className="stat-title">Views</div>
+                <div className="stat-value text-2xl">{analytics.views}</div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Average watched</div>
+                <div className="stat-value text-2xl">{analytics.averageWatchPercent}%</div>
+              </div>
+              <div className="stat">
+                <div className="stat-title">Downloads</div>
+                <div className="stat-value text-2xl">{analytics.downloads}</div>
+              </div>
+            </div>
+
+            {/* daily views, one bar per day */}
+            <div className="flex items-end gap-px h-24 mt-2" aria-label="Views per day">
+              {analytics.daily.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 bg-primary rounded-t min-h-px"
+                  style={{ height: `${(day.views / maxDailyViews) * 100}%`, opacity: day.views ? 1 : 0.2 }}
+                  title={`${day.date}: ${day.views} views, ${day.averageWatchPercent}% watched, ${day.downloads} downloads`}
+                />
+              ))}
+            </div>
+
+            {analytics.referrers.length > 0 && (
+              <table className="table table-sm mt-2">
+                <thead>
+                  <tr>
+                    <th>Referrer</th>
+                    <th className="text-right">Views</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.referrers.map((item) => (
+                    <tr key={item.referrer}>
+                      <td className="break-all">{item.referrer || "Direct"}</td>
+                      <td className="text-right">{item.views}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VideoAnalytics;
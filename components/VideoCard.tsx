@@ -0,0 +1,90 @@
+"use client";
+/*
+ * Video Card Component
+ * Shows one video of the library: poster (with a preview clip on hover),
+ * title, duration, original vs compressed size, savings and upload date.
+ *
+ * @param {video} - The video to display, as returned by GET /api/videos.
+ * @used_in: The library grid on the '/home' page.
+ */
+import React, { useState } from "react";
+import Link from "next/link";
+import { ClockIcon, CalendarIcon } from "lucide-react";
+import type { VideoDTO } from "@/lib/video-serializer";
+import { calculateSavingsPercent, formatDuration, formatFileSize } from "@/lib/upload-utils";
+import { getVideoPosterUrl, getVideoPreviewUrl } from "@/lib/video-urls";
+
+interface VideoCardProps {
+  video: VideoDTO;
+}
+
+function VideoCard({ video }: VideoCardProps) {
+  const [isHovered, setIsHovered] = useState(false);
+  const [previewFailed, setPreviewFailed] = useState(false);
+
+  const savings = calculateSavingsPercent(video.originalSize, video.compressedSize);
+
+  return (
+    <Link
+      href={`/videos/${video.id}`}
+      className="card bg-base-100 shadow-md hover:shadow-xl transition-shadow"
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <figure className="aspect-video relative bg-base-300">
+        {isHovered && !previewFailed ? (
+          <video
+            src={getVideoPreviewUrl(video.publicId)}
+            autoPlay
+            muted
+            loop
+            playsInline
+            className="w-full h-full object-cover"
+            onError={() => setPreviewFailed(true)}
+          />
+        ) : (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={getVideoPosterUrl(video)}
+            alt={video.title}
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+        )}
+        <div className="absolute bottom-2 right-2 badge badge-neutral gap-1">
+          <ClockIcon className="w-3 h-3" />
+          {formatDuration(video.duration)}
+        </div>
+      </figure>
+      <div className="card-body p-4">
+        <h2 className="card-title text-base truncate" title={video.title}>
+          {video.title}
+        </h2>
+        {video.description && (
+          <p className="text-sm text-gray-500 line-clamp-2">{video.description}</p>
+        )}
+        <div className="grid grid-cols-2 gap-2 text-sm mt-2">
+          <div>
+            <div className="text-xs text-gray-500">Original</div>
+            <div className="font-medium">{formatFileSize(video.originalSize)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Compressed</div>
+            <div className="font-medium">{formatFileSize(video.compressedSize)}</div>
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <span className={`badge ${savings > 0 ? "badge-success" : "badge-ghost"}`}>
+            {savings}% saved
+          </span>
+          <span className="flex items-center gap-1 text-xs text-gray-500">
+            <CalendarIcon className="w-3 h-3" />
+            {new Date(video.createdAt).toLocaleDateString()}
+          </span>
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+export default VideoCard;
@@ -0,0 +1,278 @@
+"use client";
+/*
+ * Video Clips Component
+ * Timeline for cutting clips out of a video: start and end handles, a preview that plays only
+ * the selected section, and the list of clips already made. Cloudinary renders clips in the
+ * background, so the list is polled while anything is still processing.
+ *
+ * @param {video} - The parent video (its duration bounds the timeline).
+ * @used_in: The video detail page at /videos/[id].
+ */
+import React, { useEffect, useRef, useState } from "react";
+import { getCldVideoUrl } from "next-cloudinary";
+import { DownloadIcon, ScissorsIcon, Trash2Icon } from "lucide-react";
+import { createVideoClip, deleteVideoClip, getVideoClips } from "@/lib/video-api-service";
+import type { VideoClipDTO, VideoDTO } from "@/lib/video-serializer";
+import { CLIP_LIMITS, roundClipOffset } from "@/lib/video-clips";
+import { formatDuration, formatFileSize } from "@/lib/upload-utils";
+import { getAttachmentUrl } from "@/lib/video-urls";
+
+const POLL_INTERVAL_MS = 15000;
+
+function VideoClips({ video }: { video: VideoDTO }) {
+  const [clips, setClips] = useState<VideoClipDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState({ start: 0, end: Math.min(video.duration, 30) });
+  const [title, setTitle] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const previewRef = useRef<HTMLVideoElement | null>(null);
+  const isPlayingSelection = useRef(false);
+
+  const isProcessing = clips.some((clip) => clip.status === "processing");
+  const clipLength = roundClipOffset(range.end - range.start);
+
+  const previewUrl = getCldVideoUrl({ src: video.publicId, format: "mp4", quality: "auto" });
+
+  // load the clips whenever the video changes
+  useEffect(() => {
+    let cancelled = false;
+    getVideoClips(video.id)
+      .then((result) => {
+        if (!cancelled) setClips(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load clips");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id]);
+
+  // keep polling while Cloudinary is still rendering
+  useEffect(() => {
+    if (!isProcessing) return;
+    const interval = setInterval(() => {
+      getVideoClips(video.id)
+        .then(setClips)
+        .catch((err) => console.log(err));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [video.id, isProcessing]);
+
+  /*
+   * Moves one handle, keeping at least the minimum clip length between them,
+   * and jumps the preview to the frame under the handle.
+   */
+  const moveHandle = (handle: "start" | "end", seconds: number) => {
+    const value = roundClipOffset(Math.min(Math.max(seconds, 0), video.duration));
+    const next = handle === "start"
+      ? { ...range, start: Math.min(value, range.end - CLIP_LIMITS.MIN_DURATION) }
+      : { ...range, end: Math.max(value, range.start + CLIP_LIMITS.MIN_DURATION) };
+    setRange(next);
+    if (previewRef.current) previewRef.current.currentTime = next[handle];
+  };
+
+  /*
+   * Plays only the selected section; handleTimeUpdate stops it at the end handle.
+   */
+  const playSelection = () => {
+    const preview = previewRef.current;
+    if (!preview) return;
+    isPlayingSelection.current = true;
+    preview.currentTime = range.start;
+    preview.play().catch((err) => console.log(err));
+  };
+
+  const handleTimeUpdate = () => {
+    const preview = previewRef.current;
+    if (!preview || !isPlayingSelection.current) return;
+    if (preview.currentTime >= range.end) {
+      isPlayingSelection.current = false;
+      preview.pause();
+    }
+  };
+
+  /*
+   * Creates the clip through the API and adds it to the list.
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const clip = await createVideoClip(video.id, {
+        title: title.trim() || undefined,
+        startOffset: range.start,
+        endOffset: range.end,
+      });
+      setClips((prev) => [...prev, clip].sort((a, b) => a.startOffset - b.startOffset || a.endOffset - b.endOffset));
+      setTitle("");
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (clip: VideoClipDTO) => {
+    if (!confirm(`Delete the clip "${clip.title}"? The original video is kept.`)) return;
+    try {
+      await deleteVideoClip(video.id, clip.id);
+      setClips((prev) => prev.filter((item) => item.id !== clip.id));
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const toPercent = (seconds: number) => `${(seconds / video.duration) * 100}%`;
+
+  return (
+    <div className="card bg-base-200 mt-6">
+      <div className="card-body">
+        <h2 className="card-title">Clips</h2>
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <video
+            ref={previewRef}
+            src={previewUrl}
+            controls
+            muted
+            preload="metadata"
+            onTimeUpdate={handleTimeUpdate}
+            onPause={() => (isPlayingSelection.current = false)}
+            className="w-full max-h-64 rounded bg-black"
+          />
+
+          {/* timeline: the highlighted band is the section that will be clipped */}
+          <div className="relative h-3 rounded bg-base-300">
+            <div
+              className="absolute h-full rounded bg-primary"
+              style={{ left: toPercent(range.start), width: toPercent(range.end - range.start) }}
+            />
+            {clips.map((clip) => (
+              <div
+                key={clip.id}
+                className="absolute -bottom-1 h-1 bg-secondary opacity-60"
+                style={{ left: toPercent(clip.startOffset), width: toPercent(clip.duration) }}
+                title={clip.title}
+              />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {(["start", "end"] as const).map((handle) => (
+              <label key={handle} className="form-control">
+                <span className="label-text text-xs mb-1 flex justify-between">
+                  <span className="capitalize">{handle}</span>
+                  <span>{formatDuration(range[handle])} ({range[handle].toFixed(1)}s)</span>
+                </span>
+                <input
+                  type="range"
+                  className="range range-xs range-primary"
+                  min={0}
+                  max={video.duration}
+                  step={0.1}
+                  value={range[handle]}
+                  onChange={(e) => moveHandle(handle, Number(e.target.value))}
+                />
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-xs self-start mt-1"
+                  onClick={() => previewRef.current && moveHandle(handle, previewRef.current.currentTime)}
+                >
+                  Set {handle} to playhead
+                </button>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+            <input
+              type="text"
+              className="input input-bordered input-sm flex-1"
+              placeholder={`${video.title} (clip)`}
+              value={title}
+              maxLength={CLIP_LIMITS.MAX_TITLE_LENGTH}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+            <span className="text-sm text-gray-500">{formatDuration(clipLength)} long</span>
+            <button type="button" className="btn btn-ghost btn-sm" onClick={playSelection}>
+              Play selection
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary btn-sm"
+              disabled={isCreating || clipLength < CLIP_LIMITS.MIN_DURATION}
+            >
+              {isCreating ? (
+                <span className="loading loading-spinner loading-sm"></span>
+              ) : (
+                <ScissorsIcon className="w-4 h-4" />
+              )}
+              Create clip
+            </button>
+          </div>
+        </form>
+
+        {error && <div className="text-sm text-error">{error}</div>}
+
+        {isLoading ? (
+          <div className="skeleton h-16 w-full mt-4"></div>
+        ) : clips.length > 0 && (
+          <table className="table table-sm mt-4">
+            <tbody>
+              {clips.map((clip) => (
+                <tr key={clip.id}>
+                  <th className="break-all">{clip.title}</th>
+                  <td className="text-gray-500 whitespace-nowrap">
+                    {formatDuration(clip.startOffset)}–{formatDuration(clip.endOffset)} ({clip.duration.toFixed(1)}s)
+                  </td>
+                  <td>
+                    {clip.status === "ready" ? (
+                      <span className="badge badge-success badge-sm">
+                        {clip.bytes !== null ? formatFileSize(clip.bytes) : "ready"}
+                      </span>
+                    ) : clip.status === "failed" ? (
+                      <span className="badge badge-error badge-sm">failed</span>
+                    ) : (
+                      <span className="badge badge-ghost badge-sm">
+                        <span className="loading loading-spinner loading-xs mr-1"></span>
+                        rendering…
+                      </span>
+                    )}
+                  </td>
+                  <td className="text-right whitespace-nowrap">
+                    {clip.status === "ready" && (
+                      <a
+                        href={getAttachmentUrl(clip.url)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        download
+                        className="btn btn-ghost btn-xs"
+                        aria-label={`Download ${clip.title}`}
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                      </a>
+                    )}
+                    <button
+                      className="btn btn-ghost btn-xs text-error"
+                      onClick={() => handleDelete(clip)}
+                      aria-label={`Delete ${clip.title}`}
+                    >
+                      <Trash2Icon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VideoClips;
@@ -0,0 +1,63 @@
+"use client";
+/*
+ * Video Player Component
+ * Plays a stored Cloudinary video with adaptive bitrate streaming (HLS, then DASH),
+ * falling back to progressive MP4 when neither is supported by the browser.
+ *
+ * @param {publicId} - Cloudinary public ID of the video.
+ * @param {width} / {height} - Intrinsic size of the video, used for the player's aspect ratio.
+ * @param {poster} - Optional poster image URL (the chosen frame or custom poster).
+ * @param {subtitles} - Optional WebVTT tracks; the first one is shown by default.
+ * @used_in: The video detail page (/videos/[id]).
+ */
+import React from "react";
+import { CldVideoPlayer } from "next-cloudinary";
+import "next-cloudinary/dist/cld-video-player.css";
+
+/*
+ * Subtitle track attached to the player.
+ */
+interface PlayerSubtitleTrack {
+  language: string;
+  label: string;
+  url: string;
+}
+
+interface VideoPlayerProps {
+  id: string;
+  publicId: string;
+  width?: number | null;
+  height?: number | null;
+  poster?: string;
+  subtitles?: PlayerSubtitleTrack[];
+}
+
+function VideoPlayer({ id, publicId, width, height, poster, subtitles = [] }: VideoPlayerProps) {
+  return (
+    <CldVideoPlayer
+      id={`player-${id}`}
+      src={publicId}
+      width={width || 1920}
+      height={height || 1080}
+      poster={poster}
+      textTracks={
+        subtitles.length > 0
+          ? {
+              subtitles: subtitles.map(({ language, label, url }, index) => ({
+                language,
+                label,
+                url,
+                default: index === 0,
+              })),
+            }
+          : undefined
+      }
+      sourceTypes={["hls", "dash", "mp4"]}
+      // Cloudinary picks the renditions ladder from the source resolution
+      transformation={{ streaming_profile: "auto" }}
+      className="rounded-lg overflow-hidden"
+    />
+  );
+}
+
+export default VideoPlayer;
@@ -0,0 +1,167 @@
+"use client";
+/*
+ * Video Renditions Component
+ * Lists the vertical, square and portrait renditions of a video, lets the owner request them
+ * and links to the finished files. Cloudinary renders in the background, so the list is
+ * polled while anything is still processing.
+ *
+ * @param {videoId} - Id of the parent video.
+ * @used_in: The video detail page at /videos/[id].
+ */
+import React, { useEffect, useState } from "react";
+import { DownloadIcon, RefreshCwIcon } from "lucide-react";
+import { createVideoRenditions, getVideoRenditions } from "@/lib/video-api-service";
+import type { VideoRenditionDTO } from "@/lib/video-serializer";
+import { VIDEO_RENDITION_FORMATS, type VideoRenditionFormat } from "@/lib/video-renditions";
+import { formatFileSize } from "@/lib/upload-utils";
+import { getAttachmentUrl } from "@/lib/video-urls";
+
+const POLL_INTERVAL_MS = 15000;
+
+function VideoRenditions({ videoId }: { videoId: string }) {
+  const [renditions, setRenditions] = useState<VideoRenditionDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const isProcessing = renditions.some((rendition) => rendition.status === "processing");
+
+  // load the renditions whenever the video changes
+  useEffect(() => {
+    let cancelled = false;
+    getVideoRenditions(videoId)
+      .then((result) => {
+        if (!cancelled) setRenditions(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load renditions");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId]);
+
+  // keep polling while Cloudinary is still rendering
+  useEffect(() => {
+    if (!isProcessing) return;
+    const interval = setInterval(() => {
+      getVideoRenditions(videoId)
+        .then(setRenditions)
+        .catch((err) => console.log(err));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [videoId, isProcessing]);
+
+  /*
+   * Requests renditions and merges the returned (processing) rows into the list.
+   */
+  const handleRequest = async (formats: VideoRenditionFormat[]) => {
+    setIsRequesting(true);
+    try {
+      const requested = await createVideoRenditions(videoId, formats);
+      setRenditions((prev) => [
+        ...prev.filter((rendition) => !formats.includes(rendition.format)),
+        ...requested,
+      ]);
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const formats = Object.keys(VIDEO_RENDITION_FORMATS) as VideoRenditionFormat[];
+  const missing = formats.filter((format) => !renditions.some((rendition) => rendition.format === format));
+
+  return (
+    <div className="card bg-base-200 mt-6">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <h2 className="card-title">Social renditions</h2>
+          {missing.length > 0 && (
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={() => handleRequest(missing)}
+              disabled={isRequesting || isLoading}
+            >
+              {isRequesting && <span className="loading loading-spinner loading-sm"></span>}
+              Generate {missing.length === formats.length ? "all" : "missing"}
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500">
+          Reframed around the subject automatically. Rendering runs in the background and can take a few minutes.
+        </p>
+
+        {error && <div className="text-sm text-error">{error}</div>}
+
+        {isLoading ? (
+          <div className="skeleton h-24 w-full"></div>
+        ) : (
+          <table className="table table-sm">
+            <tbody>
+              {formats.map((format) => {
+                const { label, width, height } = VIDEO_RENDITION_FORMATS[format];
+                const rendition = renditions.find((item) => item.format === format);
+
+                return (
+                  <tr key={format}>
+                    <th className="w-48">{label}</th>
+                    <td className="text-gray-500">
+                      {width} × {height}
+                    </td>
+                    <td>
+                      {!rendition ? (
+                        <span className="badge badge-ghost badge-sm">not generated</span>
+                      ) : rendition.status === "ready" ? (
+                        <span className="badge badge-success badge-sm">
+                          {rendition.bytes !== null ? formatFileSize(rendition.bytes) : "ready"}
+                        </span>
+                      ) : rendition.status === "failed" ? (
+                        <span className="badge badge-error badge-sm">failed</span>
+                      ) : (
+                        <span className="badge badge-ghost badge-sm">
+                          <span className="loading loading-spinner loading-xs mr-1"></span>
+                          rendering…
+                        </span>
+                      )}
+                    </td>
+                    <td className="text-right">
+                      {rendition?.status === "ready" && (
+                        <a
+                          href={getAttachmentUrl(rendition.url)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          download
+                          className="btn btn-ghost btn-xs"
+                        >
+                          <DownloadIcon className="w-4 h-4" />
+                          Download
+                        </a>
+                      )}
+                      {rendition?.status === "failed" && (
+                        <button
+                          className="btn btn-ghost btn-xs"
+                          onClick={() => handleRequest([format])}
+                          disabled={isRequesting}
+                        >
+                          <RefreshCwIcon className="w-4 h-4" />
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VideoRenditions;
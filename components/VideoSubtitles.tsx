@@ -0,0 +1,334 @@
+"use client";
+/*
+ * Video Subtitles Component
+ * Manages the subtitle tracks of a video: upload an SRT or WebVTT file per language, edit the
+ * cues, and request a rendition with the subtitles burned in for platforms that play muted.
+ * Captions are required, so a video without any track is flagged.
+ *
+ * @param {video} - The parent video.
+ * @param {onTracksChange} - Called with the current tracks, so the page can attach them to the player.
+ * @used_in: The video detail page at /videos/[id].
+ */
+import React, { useEffect, useState } from "react";
+import { DownloadIcon, FlameIcon, PencilIcon, Trash2Icon, UploadIcon } from "lucide-react";
+import SubtitleCueEditor from "@/components/SubtitleCueEditor";
+import {
+  deleteSubtitleTrack,
+  getSubtitleTracks,
+  requestSubtitleBurnIn,
+  updateSubtitleTrack,
+  uploadSubtitleTrack,
+} from "@/lib/video-api-service";
+import type { SubtitleTrackDTO, VideoDTO } from "@/lib/video-serializer";
+import {
+  SUBTITLE_FILE_EXTENSIONS,
+  SUBTITLE_LIMITS,
+  getLanguageLabel,
+  isLanguageCode,
+  type SubtitleCue,
+} from "@/lib/subtitles";
+import { formatFileSize } from "@/lib/upload-utils";
+import { getAttachmentUrl } from "@/lib/video-urls";
+
+const POLL_INTERVAL_MS = 15000;
+
+// suggestions for the language field; any language code is accepted
+const COMMON_LANGUAGES = ["en", "es", "fr", "de", "it", "pt", "pt-BR", "nl", "ja", "ko", "zh", "ar", "hi"];
+
+interface VideoSubtitlesProps {
+  video: VideoDTO;
+  onTracksChange: (tracks: SubtitleTrackDTO[]) => void;
+}
+
+function VideoSubtitles({ video, onTracksChange }: VideoSubtitlesProps) {
+  const [tracks, setTracks] = useState<SubtitleTrackDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [upload, setUpload] = useState<{ language: string; label: string; file: File | null }>({
+    language: "en",
+    label: "",
+    file: null,
+  });
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadCount, setUploadCount] = useState(0); // remounts the file input to clear it
+  const [editingLanguage, setEditingLanguage] = useState<string | null>(null);
+  const [busyLanguage, setBusyLanguage] = useState<string | null>(null);
+
+  const isProcessing = tracks.some((track) => track.burnInStatus === "processing");
+  const editingTrack = tracks.find((track) => track.language === editingLanguage);
+
+  // load the tracks whenever the video changes
+  useEffect(() => {
+    let cancelled = false;
+    getSubtitleTracks(video.id)
+      .then((result) => {
+        if (!cancelled) setTracks(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || "Failed to load subtitles");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video.id]);
+
+  // keep polling while Cloudinary is still burning subtitles in
+  useEffect(() => {
+    if (!isProcessing) return;
+    const interval = setInterval(() => {
+      getSubtitleTracks(video.id)
+        .then(setTracks)
+        .catch((err) => console.log(err));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [video.id, isProcessing]);
+
+  // hand the tracks to the page for the player
+  useEffect(() => {
+    onTracksChange(tracks);
+  }, [tracks, onTracksChange]);
+
+  /*
+   * Replaces (or adds) one track in the list, keeping it ordered by language.
+   */
+  const mergeTrack = (track: SubtitleTrackDTO) => {
+    setTracks((prev) =>
+      [...prev.filter((item) => item.language !== track.language), track].sort((a, b) =>
+        a.language.localeCompare(b.language)
+      )
+    );
+  };
+
+  /*
+   * Reads the picked file and uploads it; the server validates and converts it to WebVTT.
+   */
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { file, language, label } = upload;
+    if (!file) return;
+
+    if (!SUBTITLE_FILE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension))) {
+      alert("Please select an .srt or .vtt file");
+      return;
+    }
+    if (file.size > SUBTITLE_LIMITS.MAX_FILE_SIZE) {
+      alert(`Subtitle files must be smaller than ${formatFileSize(SUBTITLE_LIMITS.MAX_FILE_SIZE)}`);
+      return;
+    }
+    if (
+      tracks.some((track) => track.language === language) &&
+      !confirm(`Replace the existing ${getLanguageLabel(language)} subtitles?`)
+    ) {
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const track = await uploadSubtitleTrack(video.id, {
+        language,
+        label: label.trim() || undefined,
+        content: await file.text(),
+      });
+      mergeTrack(track);
+      setUpload((prev) => ({ ...prev, label: "", file: null }));
+      setUploadCount((count) => count + 1);
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSaveCues = async (cues: SubtitleCue[]) => {
+    if (!editingTrack) return;
+    try {
+      mergeTrack(await updateSubtitleTrack(video.id, editingTrack.language, { cues }));
+      setEditingLanguage(null);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+
+  const handleBurnIn = async (track: SubtitleTrackDTO) => {
+    setBusyLanguage(track.language);
+    try {
+      mergeTrack(await requestSubtitleBurnIn(video.id, track.language));
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setBusyLanguage(null);
+    }
+  };
+
+  const handleDelete = async (track: SubtitleTrackDTO) => {
+    if (!confirm(`Delete the ${track.label} subtitles?`)) return;
+    setBusyLanguage(track.language);
+    try {
+      await deleteSubtitleTrack(video.id, track.language);
+      setTracks((prev) => prev.filter((item) => item.language !== track.language));
+      if (editingLanguage === track.language) setEditingLanguage(null);
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setBusyLanguage(null);
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 mt-6">
+      <div className="card-body">
+        <h2 className="card-title">Subtitles</h2>
+
+        {!isLoading && tracks.length === 0 && (
+          <div role="alert" className="alert alert-warning">
+            <span>This video has no captions yet. Captions are required, upload an SRT or WebVTT file below.</span>
+          </div>
+        )}
+
+        {error && <div className="text-sm text-error">{error}</div>}
+
+        {isLoading ? (
+          <div className="skeleton h-16 w-full"></div>
+        ) : tracks.length > 0 && (
+          <table className="table table-sm">
+            <tbody>
+              {tracks.map((track) => (
+                <tr key={track.id}>
+                  <th>
+                    {track.label} <span className="badge badge-ghost badge-sm">{track.language}</span>
+                  </th>
+                  <td className="text-gray-500">{track.cues.length} cues</td>
+                  <td>
+                    {track.burnInStatus === "ready" && track.burnInUrl ? (
+                      <a
+                        href={getAttachmentUrl(track.burnInUrl)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        download
+                        className="btn btn-ghost btn-xs"
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                        Burned-in video{track.burnInBytes !== null && ` (${formatFileSize(track.burnInBytes)})`}
+                      </a>
+                    ) : track.burnInStatus === "processing" ? (
+                      <span className="badge badge-ghost badge-sm">
+                        <span className="loading loading-spinner loading-xs mr-1"></span>
+                        burning in…
+                      </span>
+                    ) : (
+                      <button
+                        className="btn btn-ghost btn-xs"
+                        onClick={() => handleBurnIn(track)}
+                        disabled={busyLanguage === track.language}
+                        title="Render a copy of the video with these subtitles in the picture"
+                      >
+                        <FlameIcon className="w-4 h-4" />
+                        {track.burnInStatus === "failed" ? "Retry burn-in" : "Burn in"}
+                      </button>
+                    )}
+                  </td>
+                  <td className="text-right whitespace-nowrap">
+                    <a
+                      href={track.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      download
+                      className="btn btn-ghost btn-xs"
+                      aria-label={`Download the ${track.label} WebVTT file`}
+                    >
+                      .vtt
+                    </a>
+                    <button
+                      className="btn btn-ghost btn-xs"
+                      onClick={() => setEditingLanguage(track.language)}
+                      disabled={editingLanguage !== null}
+                      aria-label={`Edit the ${track.label} subtitles`}
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      className="btn btn-ghost btn-xs text-error"
+                      onClick={() => handleDelete(track)}
+                      disabled={busyLanguage === track.language}
+                      aria-label={`Delete the ${track.label} subtitles`}
+                    >
+                      <Trash2Icon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {editingTrack && (
+          <div className="mt-2">
+            <h3 className="font-semibold mb-2">Editing {editingTrack.label}</h3>
+            <SubtitleCueEditor
+              key={editingTrack.id}
+              track={editingTrack}
+              onSave={handleSaveCues}
+              onCancel={() => setEditingLanguage(null)}
+            />
+          </div>
+        )}
+
+        <form onSubmit={handleUpload} className="flex flex-col sm:flex-row gap-2 sm:items-end mt-2">
+          <label className="form-control">
+            <span className="label-text text-xs mb-1">Language code</span>
+            <input
+              type="text"
+              className={`input input-bordered input-sm w-28 ${upload.language && !isLanguageCode(upload.language) ? "input-error" : ""}`}
+              list="subtitle-languages"
+              value={upload.language}
+              onChange={(e) => setUpload((prev) => ({ ...prev, language: e.target.value.trim() }))}
+              required
+            />
+            <datalist id="subtitle-languages">
+              {COMMON_LANGUAGES.map((language) => (
+                <option key={language} value={language}>
+                  {getLanguageLabel(language)}
+                </option>
+              ))}
+            </datalist>
+          </label>
+          <label className="form-control flex-1">
+            <span className="label-text text-xs mb-1">Label (optional)</span>
+            <input
+              type="text"
+              className="input input-bordered input-sm"
+              placeholder={isLanguageCode(upload.language) ? getLanguageLabel(upload.language) : ""}
+              maxLength={SUBTITLE_LIMITS.MAX_LABEL_LENGTH}
+              value={upload.label}
+              onChange={(e) => setUpload((prev) => ({ ...prev, label: e.target.value }))}
+            />
+          </label>
+          <input
+            key={uploadCount}
+            type="file"
+            accept={SUBTITLE_FILE_EXTENSIONS.join(",")}
+            className="file-input file-input-bordered file-input-sm"
+            onChange={(e) => setUpload((prev) => ({ ...prev, file: e.target.files?.[0] ?? null }))}
+          />
+          <button
+            type="submit"
+            className="btn btn-primary btn-sm"
+            disabled={isUploading || !upload.file || !isLanguageCode(upload.language)}
+          >
+            {isUploading ? (
+              <span className="loading loading-spinner loading-sm"></span>
+            ) : (
+              <UploadIcon className="w-4 h-4" />
+            )}
+            Upload
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default VideoSubtitles;
@@ -0,0 +1,57 @@
+/**
+ * Analytics Service
+ * Handles communication with the compression analytics API endpoint
+ * Reads the signed-in user's compression savings and builds the CSV export link
+ */
+
+import type { CompressionAnalytics } from './compression-analytics';
+
+/**
+ * Period of the analytics, ISO dates (inclusive), either bound optional
+ */
+export interface CompressionAnalyticsParams {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Builds the query string of a request
+ * @param params - Period of the analytics
+ * @param format - Response format
+ * @returns string - Query string including the leading "?"
+ */
+function buildCompressionQuery(params: CompressionAnalyticsParams, format: 'json' | 'csv'): string {
+  const search = new URLSearchParams({ format });
+  if (params.from) search.set('from', params.from);
+  if (params.to) search.set('to', params.to);
+  return `?${search.toString()}`;
+}
+
+/**
+ * Fetches the compression savings of the signed-in user's videos
+ * @param params - Period of the analytics
+ * @returns Promise<CompressionAnalytics> - Totals, monthly savings and breakdowns
+ */
+export async function getCompressionAnalytics(params: CompressionAnalyticsParams = {}): Promise<CompressionAnalytics> {
+  const response = await fetch(`/api/analytics/compression${buildCompressionQuery(params, 'json')}`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load compression analytics:', errorData);
+    // an out-of-range period comes back as a 400 listing what to change
+    const details = Array.isArray(errorData.details) ? errorData.details.join('. ') : null;
+    throw new Error(details || errorData.error || 'Failed to load compression analytics');
+  }
+
+  return response.json();
+}
+
+/**
+ * URL of the monthly CSV export (served as a download, so it can be used as a link target)
+ * @param params - Period of the analytics
+ * @returns string - Relative URL
+ */
+export function getCompressionCsvUrl(params: CompressionAnalyticsParams = {}): string {
+  return `/api/analytics/compression${buildCompressionQuery(params, 'csv')}`;
+}
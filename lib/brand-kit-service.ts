@@ -0,0 +1,50 @@
+/**
+ * Brand Kit Service
+ * Handles communication with the brand kit API endpoint
+ * Loads and saves the branding applied automatically to the user's social images
+ */
+
+import type { SocialBranding } from './social-branding';
+
+/**
+ * Fetches the signed-in user's brand kit
+ * @returns Promise<SocialBranding | null> - The saved branding, or null if none was saved
+ */
+export async function getBrandKit(): Promise<SocialBranding | null> {
+  const response = await fetch('/api/brand-kit');
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load brand kit:', errorData);
+    throw new Error(errorData.error || 'Failed to load brand kit');
+  }
+
+  const data = await response.json();
+  return data.branding;
+}
+
+/**
+ * Saves the signed-in user's brand kit, replacing any previous one
+ * @param branding - Headline, logo and pad colour to apply by default
+ * @returns Promise<SocialBranding> - The saved branding
+ */
+export async function saveBrandKit(branding: SocialBranding): Promise<SocialBranding> {
+  const response = await fetch('/api/brand-kit', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ branding }),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to save brand kit:', errorData);
+    throw new Error(errorData.error || 'Failed to save brand kit');
+  }
+
+  const data = await response.json();
+  return data.branding;
+}
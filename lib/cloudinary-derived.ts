@@ -0,0 +1,98 @@
+/**
+ * Cloudinary Derived Assets
+ * Tracks eager derivations (renditions, clips, previews) that Cloudinary renders in the background
+ * Server-side only (uses the Admin API)
+ */
+
+import cloudinary from './cloudinary-server';
+
+/**
+ * Entry of the 'derived' list returned by the Cloudinary Admin API
+ */
+export interface DerivedResource {
+  transformation: string;
+  format: string;
+  bytes: number;
+  secure_url: string;
+}
+
+export const DERIVED_OUTPUT_FORMAT = 'mp4';
+
+// a derivation still missing after this long is treated as failed
+export const DERIVED_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Transformation string Cloudinary reports for a derivation in the derived list
+ * @param options - Transformation options as passed to eager
+ * @returns string - e.g. "c_fill,g_auto,h_1920,w_1080"
+ */
+export function getTransformationString(options: Record<string, unknown>): string {
+  // generate_transformation_string consumes the options object, so give it a copy
+  return cloudinary.utils.generate_transformation_string({ ...options });
+}
+
+/**
+ * Lists the derivations Cloudinary has finished for a video
+ * @param publicId - Public ID of the source video
+ * @returns Promise<DerivedResource[]> - Finished derivations
+ */
+export async function getDerivedVideos(publicId: string): Promise<DerivedResource[]> {
+  const resource = await cloudinary.api.resource(publicId, { resource_type: 'video' });
+  return (resource.derived ?? []) as unknown as DerivedResource[];
+}
+
+/**
+ * Finds the finished derivation for a transformation
+ * @param derived - List from getDerivedVideos
+ * @param options - Transformation options as passed to eager
+ * @returns DerivedResource | undefined - The derivation, if Cloudinary has finished it
+ */
+export function findDerivedVideo(
+  derived: DerivedResource[],
+  options: Record<string, unknown>
+): DerivedResource | undefined {
+  const transformation = getTransformationString(options);
+  return derived.find((item) => item.transformation === transformation && item.format === DERIVED_OUTPUT_FORMAT);
+}
+
+/**
+ * Asks Cloudinary to render derivations of a video in the background
+ * @param publicId - Public ID of the source video
+ * @param transformations - One set of transformation options per derivation
+ * @returns string[] - Delivery URL of each derivation, in the same order
+ */
+export async function requestDerivedVideos(
+  publicId: string,
+  transformations: Record<string, unknown>[]
+): Promise<string[]> {
+  await cloudinary.uploader.explicit(publicId, {
+    type: 'upload',
+    resource_type: 'video',
+    eager: transformations.map((options) => ({ ...options, format: DERIVED_OUTPUT_FORMAT })),
+    eager_async: true,
+  });
+
+  return transformations.map((options) =>
+    cloudinary.url(publicId, {
+      resource_type: 'video',
+      secure: true,
+      format: DERIVED_OUTPUT_FORMAT,
+      transformation: [{ ...options }],
+    })
+  );
+}
+
+/**
+ * Asks Cloudinary to pre-render a raw transformation of a video in the background, so the
+ * first request for its delivery URL doesn't have to wait for it (e.g. the hover preview)
+ * @param publicId - Public ID of the source video
+ * @param rawTransformation - Transformation exactly as it appears in the delivery URL
+ */
+export async function requestRawDerivation(publicId: string, rawTransformation: string): Promise<void> {
+  await cloudinary.uploader.explicit(publicId, {
+    type: 'upload',
+    resource_type: 'video',
+    eager: [{ raw_transformation: rawTransformation }],
+    eager_async: true,
+  });
+}
@@ -0,0 +1,16 @@
+/**
+ * Cloudinary Server SDK
+ * Configures the Cloudinary v2 SDK once with the account credentials
+ * Server-only: imports the API secret, never import this from a client component
+ */
+
+import { v2 as cloudinary } from 'cloudinary';
+
+// configure cloudinary
+cloudinary.config({
+  cloud_name: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+export default cloudinary;
@@ -1,9 +1,19 @@
 /**
  * Cloudinary Service
  * Handles direct video uploads to Cloudinary from the client-side
- * Uses unsigned upload presets for secure browser-based uploads
+ * Uses short-lived signatures issued by /api/upload-signature for signed uploads
+ * Large files are sent in resumable chunks (see upload-resume-store)
  */
 
+import { FILE_SIZE_LIMITS } from './upload-utils';
+import {
+  getFileFingerprint,
+  getUploadSession,
+  saveUploadSession,
+  clearUploadSession,
+  type UploadSession,
+} from './upload-resume-store';
+
 export interface CloudinaryUploadResult {
   public_id: string;
   secure_url: string;
@@ -12,24 +22,57 @@ export interface CloudinaryUploadResult {
   format?: string;
   width?: number;
   height?: number;
-  [key: string]: any;
+  bit_rate?: number;
+  video?: {
+    codec?: string;
+    bit_rate?: string;
+  };
+  [key: string]: unknown;
 }
 
+const MAX_CHUNK_ATTEMPTS = 3;
+const SIGNATURE_RENEW_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Raised when Cloudinary answers with an error status (as opposed to a network failure)
+ */
+class CloudinaryRejectedError extends Error {}
+
 export interface CloudinaryConfig {
   cloudName: string;
-  uploadPreset: string;
-  folder: string;
+  apiKey: string;
+  signature: string;
+  timestamp: number;
+  expiresAt: number;
+  publicId: string;       // One-time public id reserved for this upload by the server
+  uploadPreset?: string;
+}
+
+export interface UploadProgress {
+  loadedBytes: number;  // Bytes of the whole file acknowledged or in flight
+  totalBytes: number;
+}
+
+export interface UploadOptions {
+  renewConfig?: (publicId: string) => Promise<CloudinaryConfig>;  // Called when the signature is about to expire
+  onProgress?: (progress: UploadProgress) => void; // Called as bytes leave the browser
+  signal?: AbortSignal;                            // Aborts the upload and discards its resume state
 }
 
 /**
- * Uploads a video file directly to Cloudinary
+ * Uploads a video file directly to Cloudinary in chunks
+ * Each chunk is sent with a Content-Range header and a shared X-Unique-Upload-Id.
+ * Progress is saved to IndexedDB after every acknowledged chunk, so calling this
+ * again with the same file after an interruption resumes where it stopped.
  * @param file - The video file to upload
- * @param config - Cloudinary configuration (cloud name, preset, folder)
+ * @param config - Signed Cloudinary configuration from getCloudinaryConfig
+ * @param options - Optional hooks (signature renewal, progress, cancellation)
  * @returns Promise<CloudinaryUploadResult> - Upload result with metadata
  */
 export async function uploadVideoToCloudinary(
   file: File, 
-  config: CloudinaryConfig
+  config: CloudinaryConfig,
+  options: UploadOptions = {}
 ): Promise<CloudinaryUploadResult> {
   
   // Validate configuration
@@ -37,56 +80,267 @@ export async function uploadVideoToCloudinary(
     throw new Error('Cloudinary cloud name is required');
   }
   
-  if (!config.uploadPreset) {
-    throw new Error('Cloudinary upload preset is required');
+  if (!config.signature || !config.apiKey) {
+    throw new Error('Cloudinary upload signature is required');
   }
 
-  // Prepare form data for Cloudinary API
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('upload_preset', config.uploadPreset);
-  formData.append('resource_type', 'video');
-  formData.append('folder', config.folder);
-
-  console.log(`📤 Uploading ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB) to Cloudinary...`);
-
-  // Make direct API call to Cloudinary
-  const response = await fetch(
-    `https://api.cloudinary.com/v1_1/${config.cloudName}/video/upload`,
-    {
-      method: 'POST',
-      body: formData,
+  if (!options.renewConfig && config.expiresAt * 1000 <= Date.now()) {
+    throw new Error('Cloudinary upload signature has expired');
+  }
+
+  // Resume a previous session for this file, or start a new one
+  const fingerprint = getFileFingerprint(file);
+  const savedSession = await getUploadSession(fingerprint).catch(() => null);
+  const session: UploadSession = savedSession && savedSession.totalBytes === file.size &&
+    savedSession.publicId === config.publicId
+    ? savedSession
+    : {
+        fingerprint,
+        uploadId: createUploadId(),
+        publicId: config.publicId,
+        uploadedBytes: 0,
+        totalBytes: file.size,
+        updatedAt: Date.now(),
+      };
+
+  if (session.uploadedBytes > 0) {
+    console.log(`🔁 Resuming ${file.name} from ${(session.uploadedBytes / 1024 / 1024).toFixed(2)}MB`);
+  } else {
+    console.log(`📤 Uploading ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB) to Cloudinary...`);
+  }
+
+  const chunkSize = FILE_SIZE_LIMITS.UPLOAD_CHUNK_SIZE;
+  let result: CloudinaryUploadResult | null = null;
+
+  options.onProgress?.({ loadedBytes: session.uploadedBytes, totalBytes: file.size });
+
+  // Send the remaining chunks in order
+  for (let start = session.uploadedBytes; start < file.size; start += chunkSize) {
+    const end = Math.min(start + chunkSize, file.size);
+
+    // Long uploads can outlive the signature, fetch a fresh one before it lapses
+    if (options.renewConfig && config.expiresAt * 1000 - Date.now() < SIGNATURE_RENEW_MARGIN_MS) {
+      config = await options.renewConfig(session.publicId);
     }
-  );
 
-  // Handle upload errors
-  if (!response.ok) {
-    const errorData = await response.json();
-    console.error('❌ Cloudinary upload failed:', errorData);
-    throw new Error(`Cloudinary upload failed: ${errorData.error?.message || 'Unknown error'}`);
+    let response: CloudinaryUploadResult;
+    try {
+      response = await uploadChunk(file, start, end, session.uploadId, config, options);
+    } catch (error) {
+      // A cancelled upload is abandoned, and one Cloudinary refused (e.g. its earlier chunks
+      // were discarded) would only be refused again, so neither may be resumed later
+      if (options.signal?.aborted || error instanceof CloudinaryRejectedError) {
+        await clearUploadSession(fingerprint).catch(() => undefined);
+      }
+      throw error;
+    }
+
+    session.uploadedBytes = end;
+    session.updatedAt = Date.now();
+
+    if (end < file.size) {
+      await saveUploadSession(session).catch(() => undefined);
+    } else {
+      result = response;
+    }
+  }
+
+  await clearUploadSession(fingerprint).catch(() => undefined);
+
+  if (!result?.public_id) {
+    throw new Error('Cloudinary upload failed: no result returned for the final chunk');
   }
 
-  // Parse successful response
-  const result = await response.json();
   console.log('✅ Cloudinary upload successful:', result.public_id);
   
-  return result as CloudinaryUploadResult;
+  return result;
 }
 
 /**
- * Gets Cloudinary configuration from environment variables
- * @returns CloudinaryConfig - Configuration object
+ * Sends a single byte range of a file to Cloudinary, retrying network failures
+ * Uses XMLHttpRequest because fetch cannot report upload progress
+ * @param file - The file being uploaded
+ * @param start - First byte of the chunk (inclusive)
+ * @param end - Last byte of the chunk (exclusive)
+ * @param uploadId - Unique upload id shared by all chunks of the file
+ * @param config - Signed Cloudinary configuration
+ * @param options - Progress and cancellation hooks
+ * @returns Promise<CloudinaryUploadResult> - Cloudinary's response for this chunk
  */
-export function getCloudinaryConfig(): CloudinaryConfig {
-  const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
-  
-  if (!cloudName) {
-    throw new Error('NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME environment variable is not set');
+async function uploadChunk(
+  file: File,
+  start: number,
+  end: number,
+  uploadId: string,
+  config: CloudinaryConfig,
+  options: UploadOptions
+): Promise<CloudinaryUploadResult> {
+  // Prepare form data for Cloudinary API (only signed params + chunk)
+  const formData = new FormData();
+  formData.append('file', file.slice(start, end), file.name);
+  formData.append('api_key', config.apiKey);
+  formData.append('timestamp', config.timestamp.toString());
+  formData.append('signature', config.signature);
+  formData.append('public_id', config.publicId);
+  if (config.uploadPreset) {
+    formData.append('upload_preset', config.uploadPreset);
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await sendChunkRequest(formData, start, end, file.size, uploadId, config, options);
+    } catch (error) {
+      if (
+        error instanceof CloudinaryRejectedError ||
+        options.signal?.aborted ||
+        attempt >= MAX_CHUNK_ATTEMPTS
+      ) {
+        throw error instanceof CloudinaryRejectedError
+          ? new CloudinaryRejectedError(`Cloudinary upload failed: ${error.message}`)
+          : error;
+      }
+
+      console.warn(`⚠️ Chunk ${start}-${end - 1} failed (attempt ${attempt}), retrying...`);
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+    }
+  }
+}
+
+/**
+ * Performs one chunk request against the Cloudinary upload API
+ * @returns Promise<CloudinaryUploadResult> - Parsed Cloudinary response
+ * @throws CloudinaryRejectedError on an error status, AbortError when cancelled,
+ *         Error on network failure
+ */
+function sendChunkRequest(
+  formData: FormData,
+  start: number,
+  end: number,
+  totalBytes: number,
+  uploadId: string,
+  config: CloudinaryConfig,
+  options: UploadOptions
+): Promise<CloudinaryUploadResult> {
+  return new Promise((resolve, reject) => {
+    const { signal, onProgress } = options;
+
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    // Make direct API call to Cloudinary
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `https://api.cloudinary.com/v1_1/${config.cloudName}/video/upload`);
+    xhr.setRequestHeader('X-Unique-Upload-Id', uploadId);
+    xhr.setRequestHeader('Content-Range', `bytes ${start}-${end - 1}/${totalBytes}`);
+    xhr.responseType = 'json';
+
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    // Report progress for the whole file, not just this chunk
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        const chunkBytes = Math.min(event.loaded / event.total, 1) * (end - start);
+        onProgress?.({ loadedBytes: start + chunkBytes, totalBytes });
+      }
+    };
+
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', handleAbort);
+
+      // Handle upload errors (not retried, the request itself was rejected)
+      if (xhr.status < 200 || xhr.status >= 300) {
+        console.error('❌ Cloudinary upload failed:', xhr.response);
+        reject(new CloudinaryRejectedError(xhr.response?.error?.message || 'Unknown error'));
+        return;
+      }
+
+      onProgress?.({ loadedBytes: end, totalBytes });
+      resolve(xhr.response as CloudinaryUploadResult);
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new Error('Network error while uploading to Cloudinary'));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    };
+
+    xhr.send(formData);
+  });
+}
+
+/**
+ * Creates the X-Unique-Upload-Id shared by all chunks of one upload
+ * @returns string - Random upload id
+ */
+function createUploadId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Requests signed upload parameters for a file from the server
+ * Without a public id, an interrupted upload of the same file is resumed when the server still
+ * holds it, and a new upload is reserved otherwise
+ * The server may refuse (quota exceeded, file type not allowed, too large)
+ * @param file - The video file that is about to be uploaded
+ * @param publicId - Public id of the upload in progress, to renew its signature
+ * @returns Promise<CloudinaryConfig> - Signed configuration object
+ */
+export async function getCloudinaryConfig(file: File, publicId?: string): Promise<CloudinaryConfig> {
+  if (publicId) {
+    return requestUploadSignature(file, publicId);
   }
 
+  const savedSession = await getUploadSession(getFileFingerprint(file)).catch(() => null);
+  if (savedSession?.publicId) {
+    try {
+      return await requestUploadSignature(file, savedSession.publicId);
+    } catch {
+      // The server dropped that upload (expired or already saved), start over
+      await clearUploadSession(savedSession.fingerprint).catch(() => undefined);
+    }
+  }
+
+  return requestUploadSignature(file);
+}
+
+/**
+ * Calls /api/upload-signature for a new upload, or to renew the signature of one in progress
+ * @param file - The video file being uploaded
+ * @param publicId - Public id of the upload in progress, if any
+ * @returns Promise<CloudinaryConfig> - Signed configuration object
+ */
+async function requestUploadSignature(file: File, publicId?: string): Promise<CloudinaryConfig> {
+  const response = await fetch('/api/upload-signature', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fileType: file.type, fileSize: file.size, publicId }),
+  });
+
+  // Handle refusals from the server
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Upload signature refused:', errorData);
+    throw new Error(errorData.error || 'Could not authorize upload');
+  }
+
+  const data = await response.json();
+
   return {
-    cloudName,
-    uploadPreset: 'cloudnary-saas', // Your upload preset name
-    folder: 'video' // Your folder name
+    cloudName: data.cloudName,
+    apiKey: data.apiKey,
+    signature: data.signature,
+    timestamp: data.timestamp,
+    expiresAt: data.expiresAt,
+    publicId: data.publicId,
+    uploadPreset: data.uploadPreset,
   };
-}
\ No newline at end of file
+}
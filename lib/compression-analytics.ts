@@ -0,0 +1,279 @@
+/**
+ * Compression Analytics
+ * Totals the bytes saved by compression across a user's videos: overall, per month, per format and
+ * per resolution, and turns the monthly figures into CSV
+ * Shared by the compression analytics API (which feeds it database rows) and the analytics page
+ */
+
+import { calculateSavingsPercent } from './upload-utils';
+
+/**
+ * The columns of a Video row the analytics need (byte sizes already converted to numbers)
+ */
+export interface CompressionRow {
+  originalSize: number;
+  compressedSize: number;
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  createdAt: Date;
+}
+
+/**
+ * Totals of a group of videos
+ */
+export interface CompressionTotals {
+  videos: number;
+  originalBytes: number;
+  compressedBytes: number;
+  savedBytes: number;       // originalBytes - compressedBytes (negative if compression grew the files)
+  savingsPercent: number;   // Whole percentage of the original bytes saved
+  averageRatio: number;     // Mean of the per-video originalSize / compressedSize, 0 without videos
+}
+
+export interface CompressionMonth extends CompressionTotals {
+  month: string;            // YYYY-MM (UTC)
+  cumulativeSavedBytes: number;
+}
+
+export interface CompressionAnalytics {
+  from: string | null;      // ISO bounds the figures were computed for, null = unbounded
+  to: string | null;
+  totals: CompressionTotals;
+  months: CompressionMonth[];  // Oldest first, months without uploads included as zeros
+  byFormat: ({ format: string } & CompressionTotals)[];          // Most bytes saved first
+  byResolution: ({ resolution: string } & CompressionTotals)[];  // Highest resolution first
+}
+
+export interface CompressionQuery {
+  from: Date | null;        // createdAt lower bound (inclusive)
+  to: Date | null;          // createdAt upper bound (inclusive)
+}
+
+export type CompressionQueryResult =
+  | { ok: true; query: CompressionQuery }
+  | { ok: false; errors: string[] };
+
+/**
+ * Resolution buckets by the short side of the frame, so portrait and landscape videos of the same
+ * quality land together. Ordered from highest to lowest.
+ */
+const RESOLUTION_BUCKETS: { label: string; minShortSide: number }[] = [
+  { label: '4K', minShortSide: 2160 },
+  { label: '1440p', minShortSide: 1440 },
+  { label: '1080p', minShortSide: 1080 },
+  { label: '720p', minShortSide: 720 },
+  { label: '480p', minShortSide: 480 },
+  { label: 'Below 480p', minShortSide: 0 },
+];
+
+const UNKNOWN = 'Unknown';
+
+/**
+ * Bounds on the requested period. Every month of the period becomes a bucket of the series, so an
+ * unbounded period (year 275760 is a valid ISO date) would build millions of them.
+ */
+const MIN_QUERY_DATE = new Date(Date.UTC(1970, 0, 1));
+const MAX_QUERY_YEARS = 10;
+
+/**
+ * Validates the search params of an analytics request
+ * @param params - URL search params (from, to as ISO dates)
+ * @returns CompressionQueryResult - The parsed bounds, or every validation error found
+ */
+export function parseCompressionQuery(params: URLSearchParams): CompressionQueryResult {
+  const errors: string[] = [];
+
+  const readDate = (name: string): Date | null => {
+    const raw = params.get(name);
+    if (raw === null || raw.trim() === '') return null;
+
+    const value = new Date(raw);
+    if (Number.isNaN(value.getTime())) {
+      errors.push(`${name} must be an ISO date`);
+      return null;
+    }
+    if (value < MIN_QUERY_DATE || value.getUTCFullYear() > new Date().getUTCFullYear() + 1) {
+      errors.push(`${name} must be between 1970 and next year`);
+      return null;
+    }
+    return value;
+  };
+
+  const from = readDate('from');
+  const to = readDate('to');
+  if (from && to && from > to) {
+    errors.push('from must not be after to');
+  }
+
+  // an open end runs to today, so a from date alone is bounded the same way
+  if (from) {
+    const end = to ?? new Date();
+    const limit = new Date(from);
+    limit.setUTCFullYear(limit.getUTCFullYear() + MAX_QUERY_YEARS);
+    if (end > limit) {
+      errors.push(`The period must not be longer than ${MAX_QUERY_YEARS} years`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, query: { from, to } };
+}
+
+/**
+ * Resolution bucket of a video
+ * @param width - Frame width in pixels (null when never recorded)
+ * @param height - Frame height in pixels
+ * @returns string - Bucket label, "Unknown" without dimensions
+ */
+export function getResolutionLabel(width: number | null, height: number | null): string {
+  if (!width || !height) return UNKNOWN;
+  const shortSide = Math.min(width, height);
+  return RESOLUTION_BUCKETS.find((bucket) => shortSide >= bucket.minShortSide)?.label ?? UNKNOWN;
+}
+
+/**
+ * Totals a group of videos
+ * @param rows - Videos of the group
+ * @returns CompressionTotals
+ */
+function getTotals(rows: CompressionRow[]): CompressionTotals {
+  let originalBytes = 0;
+  let compressedBytes = 0;
+  let ratioSum = 0;
+  let ratioCount = 0;
+
+  for (const row of rows) {
+    originalBytes += row.originalSize;
+    compressedBytes += row.compressedSize;
+    if (row.compressedSize > 0) {
+      ratioSum += row.originalSize / row.compressedSize;
+      ratioCount += 1;
+    }
+  }
+
+  return {
+    videos: rows.length,
+    originalBytes,
+    compressedBytes,
+    savedBytes: originalBytes - compressedBytes,
+    savingsPercent: calculateSavingsPercent(originalBytes, compressedBytes),
+    averageRatio: ratioCount > 0 ? Math.round((ratioSum / ratioCount) * 100) / 100 : 0,
+  };
+}
+
+/**
+ * Groups rows by a key
+ */
+function groupBy(rows: CompressionRow[], getKey: (row: CompressionRow) => string): Map<string, CompressionRow[]> {
+  const groups = new Map<string, CompressionRow[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  return groups;
+}
+
+/**
+ * Month (UTC) of a date
+ */
+function getMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Every month from the first to the last, inclusive
+ */
+function getMonthRange(first: string, last: string): string[] {
+  const months: string[] = [];
+  const [year, month] = first.split('-').map(Number);
+  for (let cursor = new Date(Date.UTC(year, month - 1, 1)); getMonth(cursor) <= last; ) {
+    months.push(getMonth(cursor));
+    cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+  }
+  return months;
+}
+
+/**
+ * Computes every figure of the analytics page
+ * @param rows - The user's videos within the query bounds
+ * @param query - Bounds the rows were selected with (the month series spans them when set)
+ * @returns CompressionAnalytics
+ */
+export function summarizeCompression(rows: CompressionRow[], query: CompressionQuery): CompressionAnalytics {
+  const byMonth = groupBy(rows, (row) => getMonth(row.createdAt));
+  const sortedMonths = [...byMonth.keys()].sort();
+
+  const first = query.from ? getMonth(query.from) : sortedMonths[0];
+  const last = query.to ? getMonth(query.to) : sortedMonths[sortedMonths.length - 1] ?? getMonth(new Date());
+
+  let cumulativeSavedBytes = 0;
+  const months = first
+    ? getMonthRange(first, last).map((month) => {
+        const totals = getTotals(byMonth.get(month) ?? []);
+        cumulativeSavedBytes += totals.savedBytes;
+        return { month, ...totals, cumulativeSavedBytes };
+      })
+    : [];
+
+  const byFormat = [...groupBy(rows, (row) => row.format?.toLowerCase() || UNKNOWN)]
+    .map(([format, group]) => ({ format, ...getTotals(group) }))
+    .sort((a, b) => b.savedBytes - a.savedBytes);
+
+  const resolutionOrder = [...RESOLUTION_BUCKETS.map((bucket) => bucket.label), UNKNOWN];
+  const byResolution = [...groupBy(rows, (row) => getResolutionLabel(row.width, row.height))]
+    .map(([resolution, group]) => ({ resolution, ...getTotals(group) }))
+    .sort((a, b) => resolutionOrder.indexOf(a.resolution) - resolutionOrder.indexOf(b.resolution));
+
+  return {
+    from: query.from?.toISOString() ?? null,
+    to: query.to?.toISOString() ?? null,
+    totals: getTotals(rows),
+    months,
+    byFormat,
+    byResolution,
+  };
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, quote or line break
+ */
+function toCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the CSV export: one row per month plus a total row
+ * @param analytics - Result of summarizeCompression
+ * @returns string - CSV with a header row, CRLF line endings
+ */
+export function toCompressionCsv(analytics: CompressionAnalytics): string {
+  const header = [
+    'month',
+    'videos',
+    'original_bytes',
+    'compressed_bytes',
+    'saved_bytes',
+    'savings_percent',
+    'average_compression_ratio',
+  ];
+  const toRow = (label: string, totals: CompressionTotals) => [
+    label,
+    totals.videos,
+    totals.originalBytes,
+    totals.compressedBytes,
+    totals.savedBytes,
+    totals.savingsPercent,
+    totals.averageRatio,
+  ];
+
+  const rows = [
+    header,
+    ...analytics.months.map((month) => toRow(month.month, month)),
+    toRow('total', analytics.totals),
+  ];
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,132 @@
+/**
+ * Entitlements
+ * Resolves a user's plan limits and usage and decides whether an upload is allowed
+ * Enforced by the upload routes on the server, so skipping the browser checks doesn't help
+ * Server-side only (queries Prisma)
+ */
+
+import prisma from './prisma';
+import { formatDuration, formatFileSize } from './upload-utils';
+import {
+  DEFAULT_PLAN,
+  PLANS,
+  isPlanId,
+  type PlanId,
+  type PlanLimits,
+  type PlanUsage,
+  type UsageSummary,
+} from './plans';
+
+/**
+ * Upload about to be stored, as far as it is known at the time of the check
+ */
+export interface UploadRequest {
+  fileSize: number;   // Bytes
+  duration?: number;  // Seconds, videos only (unknown before the file reaches Cloudinary)
+  reservedBytes?: number;  // Set when registering a pending upload: it is already counted, with this size
+}
+
+export type UploadCheckResult =
+  | { ok: true }
+  | { ok: false; status: 403 | 413; error: string };
+
+/**
+ * Resolves the plan of a user and its limits, applying per-user overrides
+ * @param userId - Clerk user id
+ * @returns Promise<{ plan, limits }> - The free plan for users without a UserPlan row
+ */
+export async function getEntitlements(userId: string): Promise<{ plan: PlanId; limits: PlanLimits }> {
+  const row = await prisma.userPlan.findUnique({ where: { userId } });
+  const plan = isPlanId(row?.plan) ? row.plan : DEFAULT_PLAN;
+  const defaults = PLANS[plan].limits;
+
+  return {
+    plan,
+    limits: {
+      storageBytes: row?.storageBytes != null ? Number(row.storageBytes) : defaults.storageBytes,
+      monthlyUploads: row?.monthlyUploads ?? defaults.monthlyUploads,
+      maxVideoDuration: row?.maxVideoDuration ?? defaults.maxVideoDuration,
+      maxFileSize: row?.maxFileSize != null ? Number(row.maxFileSize) : defaults.maxFileSize,
+    },
+  };
+}
+
+/**
+ * Sums what a user has stored and counts this month's uploads (videos and images)
+ * Uploads are counted from the Upload log, which deleting a file doesn't shrink; pending uploads
+ * (signed but not registered yet) count towards both figures at their declared size
+ * @param userId - Clerk user id
+ * @returns Promise<PlanUsage> - Current usage
+ */
+export async function getUsage(userId: string): Promise<PlanUsage> {
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const [videos, images, pending, monthlyUploads] = await Promise.all([
+    prisma.video.aggregate({ where: { userId }, _sum: { compressedSize: true } }),
+    prisma.image.aggregate({ where: { userId }, _sum: { bytes: true } }),
+    prisma.upload.aggregate({ where: { userId, status: 'pending' }, _sum: { bytes: true } }),
+    prisma.upload.count({ where: { userId, createdAt: { gte: monthStart }, status: { not: 'expired' } } }),
+  ]);
+
+  return {
+    storageBytes:
+      Number(videos._sum.compressedSize ?? 0) + (images._sum.bytes ?? 0) + Number(pending._sum.bytes ?? 0),
+    monthlyUploads,
+  };
+}
+
+/**
+ * Plan, limits and usage of a user, as shown by the usage meter
+ * @param userId - Clerk user id
+ * @returns Promise<UsageSummary>
+ */
+export async function getUsageSummary(userId: string): Promise<UsageSummary> {
+  const [{ plan, limits }, usage] = await Promise.all([getEntitlements(userId), getUsage(userId)]);
+  return { plan, planLabel: PLANS[plan].label, limits, usage };
+}
+
+/**
+ * Checks an upload against the user's plan
+ * @param userId - Clerk user id
+ * @param upload - Size (and duration, when known) of the file
+ * @returns Promise<UploadCheckResult> - ok, or the status and message to refuse with
+ *          (413 for a file over the per-file limits, 403 when a quota is used up)
+ */
+export async function checkUploadAllowed(userId: string, upload: UploadRequest): Promise<UploadCheckResult> {
+  const [{ plan, limits }, usage] = await Promise.all([getEntitlements(userId), getUsage(userId)]);
+  const planLabel = PLANS[plan].label;
+
+  if (upload.fileSize > limits.maxFileSize) {
+    return {
+      ok: false,
+      status: 413,
+      error: `File exceeds the ${formatFileSize(limits.maxFileSize)} limit of the ${planLabel} plan`,
+    };
+  }
+  if (upload.duration !== undefined && upload.duration > limits.maxVideoDuration) {
+    return {
+      ok: false,
+      status: 413,
+      error: `Videos on the ${planLabel} plan can be at most ${formatDuration(limits.maxVideoDuration)} long`,
+    };
+  }
+  // a pending upload already holds its place in the monthly count and its declared bytes
+  const reserved = upload.reservedBytes !== undefined;
+  if (!reserved && usage.monthlyUploads + 1 > limits.monthlyUploads) {
+    return {
+      ok: false,
+      status: 403,
+      error: `Monthly upload limit reached (${limits.monthlyUploads} uploads on the ${planLabel} plan)`,
+    };
+  }
+  if (usage.storageBytes - (upload.reservedBytes ?? 0) + upload.fileSize > limits.storageBytes) {
+    return {
+      ok: false,
+      status: 403,
+      error: `Storage quota exceeded: ${formatFileSize(usage.storageBytes)} of ${formatFileSize(limits.storageBytes)} used`,
+    };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,98 @@
+/**
+ * Image API Service
+ * Handles communication with the image library API endpoints
+ * Reads the signed-in user's previously uploaded images back for reuse
+ */
+
+import type { FocalPoint } from './social-formats';
+
+export interface ImageRecord {
+  id: string;
+  publicId: string;
+  width: number;
+  height: number;
+  bytes: number;
+  format: string;
+  focalPoints: Record<string, FocalPoint>;  // Manual crop centres keyed by social format name
+  createdAt: string;
+}
+
+export interface ImageListResponse {
+  images: ImageRecord[];
+  nextCursor: string | null;
+}
+
+/**
+ * Fetches one page of the signed-in user's images
+ * @param cursor - nextCursor from the previous page, if any
+ * @returns Promise<ImageListResponse> - The page and the cursor for the next one
+ */
+export async function getImages(cursor?: string): Promise<ImageListResponse> {
+  const searchParams = new URLSearchParams();
+  if (cursor) searchParams.set('cursor', cursor);
+
+  const response = await fetch(`/api/images?${searchParams.toString()}`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load images:', errorData);
+    throw new Error(errorData.error || 'Failed to load images');
+  }
+
+  return response.json();
+}
+
+/**
+ * Saves the manual crop centres of an image
+ * @param id - Image id
+ * @param focalPoints - Full map of format name → focal point (missing formats use auto gravity)
+ * @returns Promise<Record<string, FocalPoint>> - The saved map
+ */
+export async function updateImageFocalPoints(
+  id: string,
+  focalPoints: Record<string, FocalPoint>
+): Promise<Record<string, FocalPoint>> {
+  const response = await fetch(`/api/images/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ focalPoints }),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to save crop settings:', errorData);
+    throw new Error(errorData.error || 'Failed to save crop settings');
+  }
+
+  const data = await response.json();
+  return data.focalPoints;
+}
+
+/**
+ * Uploads an image into the signed-in user's library
+ * @param file - Image file picked by the user
+ * @returns Promise<ImageRecord> - The new library entry
+ */
+export async function uploadImage(file: File): Promise<ImageRecord> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch('/api/image-upload', {
+    method: 'POST',
+    body: formData,
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to upload image:', errorData);
+    throw new Error(errorData.error || 'Failed to upload image');
+  }
+
+  const data = await response.json();
+  return data.image;
+}
@@ -0,0 +1,94 @@
+/**
+ * oEmbed
+ * Recognises share URLs and builds the iframe and sizes returned by the oEmbed endpoint
+ * (https://oembed.com), so CMSes and chat tools can unfurl shared videos
+ */
+
+export const OEMBED_PROVIDER_NAME = 'Cloudinary Showcase';
+
+// Width of the embed when the consumer sets no maximum
+export const EMBED_DEFAULT_WIDTH = 640;
+
+// Fallback frame when a video's dimensions were never recorded
+const DEFAULT_ASPECT = { width: 1920, height: 1080 };
+
+const SHARE_PATH = /^\/(?:s|embed)\/([A-Za-z0-9_-]+)\/?$/;
+
+/**
+ * Public origin of this app, as seen by oEmbed consumers. The discovery link and the endpoint's
+ * URL check must agree on it, so both take it from here: APP_URL when configured, otherwise the
+ * (proxy-forwarded) host of the request.
+ * @param requestHeaders - Headers of the current request
+ * @returns string - Origin such as https://example.com, without a trailing slash
+ */
+export function getAppOrigin(requestHeaders: Headers): string {
+  if (process.env.APP_URL) return new URL(process.env.APP_URL).origin;
+
+  // proxies may append to these headers; the first value is the client-facing one
+  const firstValue = (name: string) => requestHeaders.get(name)?.split(',')[0].trim() || null;
+  const host = firstValue('x-forwarded-host') ?? firstValue('host');
+  const protocol = firstValue('x-forwarded-proto') ?? 'https';
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Extracts the share token from a share or embed URL of this app
+ * @param url - URL sent by the consumer (/s/[token] or /embed/[token])
+ * @param origin - Origin of this app; URLs of other sites are not ours to describe
+ * @returns string | null - The token, or null when the URL isn't one of our share URLs
+ */
+export function parseShareUrl(url: string, origin: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.origin !== origin) return null;
+  return SHARE_PATH.exec(parsed.pathname)?.[1] ?? null;
+}
+
+/**
+ * Sizes an embed to the video's aspect ratio within the consumer's limits
+ * @param video - Intrinsic video size (null when unknown)
+ * @param maxWidth - oEmbed maxwidth, if sent
+ * @param maxHeight - oEmbed maxheight, if sent
+ * @returns { width, height } - Whole pixels, never above either maximum
+ */
+export function getEmbedSize(
+  video: { width: number | null; height: number | null },
+  maxWidth?: number,
+  maxHeight?: number
+): { width: number; height: number } {
+  const ratio = video.width && video.height
+    ? video.height / video.width
+    : DEFAULT_ASPECT.height / DEFAULT_ASPECT.width;
+
+  let width = Math.min(EMBED_DEFAULT_WIDTH, maxWidth ?? EMBED_DEFAULT_WIDTH);
+  let height = Math.round(width * ratio);
+  if (maxHeight !== undefined && height > maxHeight) {
+    height = maxHeight;
+    width = Math.round(height / ratio);
+  }
+  return { width, height };
+}
+
+/**
+ * Builds the iframe markup of an embed
+ * @param src - Absolute /embed/[token] URL
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @param title - Video title, used as the frame's accessible name
+ * @returns string - HTML for the oEmbed 'html' field
+ */
+export function getEmbedIframeHtml(src: string, width: number, height: number, title: string): string {
+  const escapedTitle = title
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return (
+    `<iframe src="${src}" width="${width}" height="${height}" title="${escapedTitle}" ` +
+    `frameborder="0" allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>`
+  );
+}
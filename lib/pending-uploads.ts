@@ -0,0 +1,115 @@
+/**
+ * Pending Uploads
+ * Videos go from the browser straight to Cloudinary, so their quota is reserved when the upload
+ * signature is issued: every signature is for a new one-time public id, logged as a pending
+ * Upload until /api/video-upload registers the video. Pending uploads count towards the monthly
+ * uploads and storage, and ones never registered are deleted from Cloudinary once they expire.
+ * Images are reserved the same way for the length of their upload through /api/image-upload.
+ * Server-side only (queries Prisma, calls the Cloudinary Admin API)
+ */
+
+import { randomBytes } from 'node:crypto';
+import prisma from './prisma';
+import cloudinary from './cloudinary-server';
+
+// Signatures are valid for an hour and long uploads renew them; a pending upload neither
+// renewed nor registered within this window has been abandoned
+export const PENDING_UPLOAD_TTL_MS = 2 * 60 * 60 * 1000;
+
+const PUBLIC_ID_BYTES = 16;
+const CLEANUP_BATCH_SIZE = 10;
+
+/**
+ * Reserves a new upload for a user
+ * @param userId - Clerk user id
+ * @param bytes - Declared file size, counted towards storage until the upload is registered
+ * @param kind - Resource type of the upload, also the top folder of its public id
+ * @returns Promise<string> - The public id to upload (or sign the upload) to
+ */
+export async function createPendingUpload(
+  userId: string,
+  bytes: number,
+  kind: 'video' | 'image' = 'video'
+): Promise<string> {
+  const publicId = `${kind}/${userId}/${randomBytes(PUBLIC_ID_BYTES).toString('base64url')}`;
+  await prisma.upload.create({
+    data: {
+      userId,
+      kind,
+      publicId,
+      bytes: BigInt(bytes),
+      status: 'pending',
+      expiresAt: new Date(Date.now() + PENDING_UPLOAD_TTL_MS),
+    },
+  });
+  return publicId;
+}
+
+/**
+ * Extends a pending upload whose signature is being renewed (long or resumed uploads)
+ * @param userId - Clerk user id, must own the upload
+ * @param publicId - Public id the upload was signed for
+ * @param bytes - Declared file size, must match the reservation
+ * @returns Promise<boolean> - False when there is no such unexpired pending upload
+ */
+export async function renewPendingUpload(userId: string, publicId: string, bytes: number): Promise<boolean> {
+  const now = new Date();
+  const { count } = await prisma.upload.updateMany({
+    where: { userId, publicId, bytes: BigInt(bytes), status: 'pending', expiresAt: { gt: now } },
+    data: { expiresAt: new Date(now.getTime() + PENDING_UPLOAD_TTL_MS) },
+  });
+  return count > 0;
+}
+
+/**
+ * Looks up the unexpired pending upload a registration claims
+ * @param userId - Clerk user id, must own the upload
+ * @param publicId - Public id of the uploaded video
+ * @returns The Upload row, or null when the upload was never signed, expired or is already registered
+ */
+export async function findPendingUpload(userId: string, publicId: string) {
+  return prisma.upload.findFirst({
+    where: { userId, publicId, status: 'pending', expiresAt: { gt: new Date() } },
+  });
+}
+
+/**
+ * Deletes expired pending uploads from Cloudinary and drops their reservations
+ * Runs opportunistically (a small batch per new signature). Rows are marked expired before their
+ * file is deleted, so a late registration can no longer claim them; a row whose file could not be
+ * deleted stays expired and is retried by a later run.
+ */
+export async function cleanupExpiredUploads(): Promise<void> {
+  const expired = await prisma.upload.findMany({
+    where: {
+      OR: [{ status: 'pending', expiresAt: { lt: new Date() } }, { status: 'expired' }],
+    },
+    orderBy: { createdAt: 'asc' },
+    take: CLEANUP_BATCH_SIZE,
+    select: { id: true, publicId: true, kind: true },
+  });
+  if (expired.length === 0) return;
+
+  const ids = expired.map((upload) => upload.id);
+  await prisma.upload.updateMany({
+    where: { id: { in: ids }, status: 'pending' },
+    data: { status: 'expired' },
+  });
+  // a registration may have claimed a row in between; only the ones marked expired are ours
+  const claimed = await prisma.upload.findMany({
+    where: { id: { in: ids }, status: 'expired' },
+    select: { id: true, publicId: true, kind: true },
+  });
+
+  await Promise.all(
+    claimed.map(async (upload) => {
+      try {
+        // "not found" is fine: the browser never finished sending the file
+        await cloudinary.uploader.destroy(upload.publicId, { resource_type: upload.kind, invalidate: true });
+        await prisma.upload.delete({ where: { id: upload.id } });
+      } catch (error) {
+        console.error('❌ Could not delete the abandoned upload', upload.publicId, error);
+      }
+    })
+  );
+}
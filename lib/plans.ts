@@ -0,0 +1,66 @@
+/**
+ * Plans
+ * Plan tiers and the limits each one grants: stored bytes, uploads per calendar month (UTC),
+ * maximum video duration and maximum file size
+ * Shared by the server-side quota checks and the usage meter
+ */
+
+/**
+ * Limits granted by a plan (or overridden for one user)
+ */
+export interface PlanLimits {
+  storageBytes: number;      // Bytes stored on Cloudinary for all videos and images
+  monthlyUploads: number;    // Videos + images uploaded since the 1st of the month (UTC)
+  maxVideoDuration: number;  // Seconds
+  maxFileSize: number;       // Bytes per file
+}
+
+const GB = 1024 * 1024 * 1024;
+const MB = 1024 * 1024;
+
+export const PLANS = {
+  free: {
+    label: 'Free',
+    limits: { storageBytes: 2 * GB, monthlyUploads: 20, maxVideoDuration: 5 * 60, maxFileSize: 200 * MB },
+  },
+  pro: {
+    label: 'Pro',
+    limits: { storageBytes: 50 * GB, monthlyUploads: 500, maxVideoDuration: 60 * 60, maxFileSize: 2 * GB },
+  },
+  business: {
+    label: 'Business',
+    limits: { storageBytes: 500 * GB, monthlyUploads: 5000, maxVideoDuration: 4 * 60 * 60, maxFileSize: 2 * GB },
+  },
+} as const satisfies Record<string, { label: string; limits: PlanLimits }>;
+
+export type PlanId = keyof typeof PLANS;
+
+// users without a UserPlan row are on this plan
+export const DEFAULT_PLAN: PlanId = 'free';
+
+/**
+ * Checks a stored plan value
+ * @param value - Candidate plan id
+ * @returns boolean - True for a known plan
+ */
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANS, value);
+}
+
+/**
+ * What the user has used so far
+ */
+export interface PlanUsage {
+  storageBytes: number;
+  monthlyUploads: number;
+}
+
+/**
+ * Plan, limits and usage returned by GET /api/usage
+ */
+export interface UsageSummary {
+  plan: PlanId;
+  planLabel: string;
+  limits: PlanLimits;
+  usage: PlanUsage;
+}
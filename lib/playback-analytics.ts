@@ -0,0 +1,140 @@
+/**
+ * Playback Analytics
+ * Event shapes, validation and bot rules for views, watch progress and downloads reported by
+ * the share and embed players, plus the summary shown in the owner's analytics panel
+ * Shared by the events API, the players and the analytics panel
+ */
+
+export const PLAYBACK_EVENT_TYPES = ['view', 'progress', 'download'] as const;
+
+export type PlaybackEventType = (typeof PLAYBACK_EVENT_TYPES)[number];
+
+// Share of the video watched that is reported as a 'progress' event
+export const PLAYBACK_QUARTILES = [25, 50, 75, 100] as const;
+
+export type PlaybackQuartile = (typeof PLAYBACK_QUARTILES)[number];
+
+export const PLAYBACK_ANALYTICS_LIMITS = {
+  DEFAULT_DAYS: 30,
+  MAX_DAYS: 365,
+  MAX_REFERRERS: 10,  // Referrers listed in the panel, the rest are summed as "Other"
+  MAX_EVENTS_PER_IP_PER_MINUTE: 60,
+  MAX_EVENTS_PER_LINK_PER_MINUTE: 1200,
+} as const;
+
+// User agents of crawlers, link unfurlers and scripted clients; their events are dropped
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|scrape|fetch|preview|headless|phantom|lighthouse|facebookexternalhit|embedly|curl|wget|python|java\/|go-http|okhttp|axios|node-fetch/i;
+
+/**
+ * One event as sent by a player
+ */
+export interface PlaybackEvent {
+  token: string;               // Share link the video was opened through
+  type: PlaybackEventType;
+  quartile?: PlaybackQuartile; // 'progress' events only
+  access: string;              // Grant from the share API: the viewer opened (and unlocked) the link
+  referrer: string;            // Referring host, "" for direct visits
+}
+
+export type PlaybackEventParseResult =
+  | { ok: true; event: PlaybackEvent }
+  | { ok: false; errors: string[] };
+
+/**
+ * Reduces a referrer URL to its host
+ * @param referrer - document.referrer as sent by the player (may be empty)
+ * @returns string - Lower-case host, "" when there is none or it can't be parsed
+ */
+export function getReferrerHost(referrer: unknown): string {
+  if (typeof referrer !== 'string' || !referrer) return '';
+  try {
+    return new URL(referrer).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Validates the JSON body of an events request
+ * @param body - Parsed request body
+ * @returns PlaybackEventParseResult - The event, or every validation error found
+ */
+export function parsePlaybackEvent(body: unknown): PlaybackEventParseResult {
+  const errors: string[] = [];
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  if (typeof input.token !== 'string' || !input.token) {
+    errors.push('token is required');
+  }
+  if (!PLAYBACK_EVENT_TYPES.includes(input.type as PlaybackEventType)) {
+    errors.push(`type must be one of ${PLAYBACK_EVENT_TYPES.join(', ')}`);
+  }
+  if (input.type === 'progress' && !PLAYBACK_QUARTILES.includes(input.quartile as PlaybackQuartile)) {
+    errors.push(`quartile must be one of ${PLAYBACK_QUARTILES.join(', ')}`);
+  }
+  if (typeof input.access !== 'string' || !input.access) {
+    errors.push('access is required');
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    event: {
+      token: input.token as string,
+      type: input.type as PlaybackEventType,
+      quartile: input.type === 'progress' ? (input.quartile as PlaybackQuartile) : undefined,
+      access: input.access as string,
+      referrer: getReferrerHost(input.referrer),
+    },
+  };
+}
+
+/**
+ * Whether a request comes from a crawler or script rather than a person
+ * @param userAgent - User-Agent header (null when missing)
+ * @returns boolean - True for bots and requests without a user agent
+ */
+export function isBotUserAgent(userAgent: string | null): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * Totals of one day, as returned to the analytics panel
+ */
+export interface PlaybackDay {
+  date: string;  // YYYY-MM-DD (UTC)
+  views: number;
+  downloads: number;
+  averageWatchPercent: number;
+}
+
+/**
+ * Analytics of one video over a period
+ */
+export interface VideoAnalytics {
+  days: number;
+  views: number;
+  downloads: number;
+  averageWatchPercent: number;  // 0-100, see getAverageWatchPercent
+  daily: PlaybackDay[];         // Oldest first, days without events included as zeros
+  referrers: { referrer: string; views: number }[];  // Most views first, "" = direct
+}
+
+/**
+ * Estimates the average share of the video watched per view from the quartile counts
+ * Each viewer adds 25 points per quartile reached, so the estimate rounds down to the last quartile
+ * @param counts - Views and the number of viewers past each quartile
+ * @returns number - Whole percentage 0-100, 0 without views
+ */
+export function getAverageWatchPercent(counts: {
+  views: number;
+  quartile25: number;
+  quartile50: number;
+  quartile75: number;
+  quartile100: number;
+}): number {
+  if (counts.views === 0) return 0;
+  const points = (counts.quartile25 + counts.quartile50 + counts.quartile75 + counts.quartile100) * 25;
+  return Math.min(100, Math.round(points / counts.views));
+}
@@ -0,0 +1,178 @@
+/**
+ * Playback Events
+ * Records player events into the per-video daily counters and reads them back for the analytics panel
+ * Server-side only (queries Prisma, uses node:crypto)
+ */
+
+import { createHash } from 'node:crypto';
+import prisma from './prisma';
+import { getClientIp } from './rate-limit';
+import {
+  PLAYBACK_ANALYTICS_LIMITS,
+  getAverageWatchPercent,
+  type PlaybackDay,
+  type PlaybackEvent,
+  type PlaybackQuartile,
+  type VideoAnalytics,
+} from './playback-analytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Column of VideoDailyStat an event adds to
+type DailyCounter = 'views' | 'downloads' | `quartile${PlaybackQuartile}`;
+
+// Duplicate keys are only compared within a day, so older ones can go
+const EVENT_KEY_RETENTION_MS = 2 * DAY_MS;
+
+/**
+ * Who sent an event, as far as the server can tell (nothing the player chooses)
+ */
+export interface PlaybackViewer {
+  ip: string;         // Client IP, from getClientIp
+  userAgent: string;
+}
+
+/**
+ * Reads the viewer of an events request from its headers
+ * @param headers - Request headers
+ * @returns PlaybackViewer - Empty strings for what the request doesn't carry
+ */
+export function getPlaybackViewer(headers: Headers): PlaybackViewer {
+  return {
+    ip: getClientIp(headers),
+    userAgent: headers.get('user-agent') ?? '',
+  };
+}
+
+/**
+ * sha256 of the parts, hex; keeps IPs out of the database
+ */
+export function hashParts(...parts: string[]): string {
+  return createHash('sha256').update(parts.join(':')).digest('hex');
+}
+
+/**
+ * Start of the UTC day of a date, the bucket events are counted in
+ * @param date - Any time of the day
+ * @returns Date - Midnight UTC
+ */
+function getUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Counts an event once per viewer, video, day and event (and quartile)
+ * The viewer is their IP and user agent, so viewers behind the same address with the same browser
+ * count once, but clearing storage or scripting new sessions doesn't add views
+ * @param videoId - Video the share link points to
+ * @param event - Validated event from parsePlaybackEvent
+ * @param viewer - Sender of the event, from getPlaybackViewer
+ * @returns Promise<boolean> - False when the event was a duplicate and nothing was counted
+ */
+export async function recordPlaybackEvent(
+  videoId: string,
+  event: PlaybackEvent,
+  viewer: PlaybackViewer
+): Promise<boolean> {
+  const date = getUtcDay(new Date());
+  const key = hashParts(
+    viewer.ip,
+    viewer.userAgent,
+    videoId,
+    date.toISOString(),
+    event.type,
+    String(event.quartile ?? '')
+  );
+
+  // The key's primary index decides: a second insert of the same key is skipped, even when concurrent
+  const { count } = await prisma.playbackEventKey.createMany({ data: [{ key }], skipDuplicates: true });
+  if (count === 0) return false;
+
+  const counter: DailyCounter =
+    event.type === 'view' ? 'views'
+    : event.type === 'download' ? 'downloads'
+    : `quartile${event.quartile ?? 25}`;
+
+  await prisma.videoDailyStat.upsert({
+    where: { videoId_date: { videoId, date } },
+    create: { videoId, date, [counter]: 1 },
+    update: { [counter]: { increment: 1 } },
+  });
+
+  if (event.type === 'view') {
+    await prisma.videoDailyReferrer.upsert({
+      where: { videoId_date_referrer: { videoId, date, referrer: event.referrer } },
+      create: { videoId, date, referrer: event.referrer, views: 1 },
+      update: { views: { increment: 1 } },
+    });
+
+    // once per view is often enough to keep the duplicate keys table small
+    await prisma.playbackEventKey.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - EVENT_KEY_RETENTION_MS) } },
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Totals, daily series and referrers of a video over the last days
+ * @param videoId - Video id
+ * @param days - Number of days including today
+ * @returns Promise<VideoAnalytics>
+ */
+export async function getVideoAnalytics(videoId: string, days: number): Promise<VideoAnalytics> {
+  const today = getUtcDay(new Date());
+  const from = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+  const [stats, referrerGroups] = await Promise.all([
+    prisma.videoDailyStat.findMany({ where: { videoId, date: { gte: from } }, orderBy: { date: 'asc' } }),
+    prisma.videoDailyReferrer.groupBy({
+      by: ['referrer'],
+      where: { videoId, date: { gte: from } },
+      _sum: { views: true },
+      orderBy: { _sum: { views: 'desc' } },
+    }),
+  ]);
+
+  const byDate = new Map(stats.map((stat) => [stat.date.toISOString().slice(0, 10), stat]));
+  const daily: PlaybackDay[] = [];
+  for (let time = from.getTime(); time <= today.getTime(); time += DAY_MS) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    const stat = byDate.get(date);
+    daily.push({
+      date,
+      views: stat?.views ?? 0,
+      downloads: stat?.downloads ?? 0,
+      averageWatchPercent: stat ? getAverageWatchPercent(stat) : 0,
+    });
+  }
+
+  const totals = stats.reduce(
+    (sum, stat) => ({
+      views: sum.views + stat.views,
+      downloads: sum.downloads + stat.downloads,
+      quartile25: sum.quartile25 + stat.quartile25,
+      quartile50: sum.quartile50 + stat.quartile50,
+      quartile75: sum.quartile75 + stat.quartile75,
+      quartile100: sum.quartile100 + stat.quartile100,
+    }),
+    { views: 0, downloads: 0, quartile25: 0, quartile50: 0, quartile75: 0, quartile100: 0 }
+  );
+
+  const referrers = referrerGroups.map((group) => ({ referrer: group.referrer, views: group._sum.views ?? 0 }));
+  const listed = referrers.slice(0, PLAYBACK_ANALYTICS_LIMITS.MAX_REFERRERS);
+  const otherViews = referrers
+    .slice(PLAYBACK_ANALYTICS_LIMITS.MAX_REFERRERS)
+    .reduce((sum, item) => sum + item.views, 0);
+  if (otherViews > 0) listed.push({ referrer: 'Other', views: otherViews });
+
+  return {
+    days,
+    views: totals.views,
+    downloads: totals.downloads,
+    averageWatchPercent: getAverageWatchPercent(totals),
+    daily,
+    referrers: listed,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Playback Tracking
+ * Reports views, watch progress (quartiles) and downloads of shared videos to the events API
+ * Client-side only (uses the video element); failures never interrupt playback
+ */
+
+import { PLAYBACK_QUARTILES, type PlaybackEventType, type PlaybackQuartile } from './playback-analytics';
+
+// Gaps between timeupdate events longer than this are seeks, not watching
+const MAX_WATCH_STEP_SECONDS = 1.5;
+
+/**
+ * Sends one event; errors are logged, not thrown
+ * @param token - Share link the video was opened through
+ * @param access - Access grant the share API returned with the video
+ * @param type - Event type
+ * @param quartile - Share of the video watched, 'progress' events only
+ */
+export function trackPlaybackEvent(
+  token: string,
+  access: string,
+  type: PlaybackEventType,
+  quartile?: PlaybackQuartile
+): void {
+  // automated browsers announce themselves; their plays aren't viewers
+  if (navigator.webdriver) return;
+
+  fetch('/api/events', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      token,
+      type,
+      quartile,
+      access,
+      referrer: document.referrer,
+    }),
+    // let the last progress event through when the tab is closing
+    keepalive: true,
+  }).catch((err) => console.log(err));
+}
+
+/**
+ * Watches a video element: a view on the first play, then each quartile once it has actually been
+ * watched (seeking ahead doesn't count)
+ * @param video - The player's video element
+ * @param token - Share link the video was opened through
+ * @param access - Access grant the share API returned with the video
+ * @returns () => void - Removes the listeners
+ */
+export function watchPlayback(video: HTMLVideoElement, token: string, access: string): () => void {
+  let viewed = false;
+  let watchedSeconds = 0;
+  let lastTime = video.currentTime;
+  const reported = new Set<PlaybackQuartile>();
+
+  const reportQuartiles = (percent: number) => {
+    for (const quartile of PLAYBACK_QUARTILES) {
+      if (percent >= quartile && !reported.has(quartile)) {
+        reported.add(quartile);
+        trackPlaybackEvent(token, access, 'progress', quartile);
+      }
+    }
+  };
+
+  const handlePlay = () => {
+    if (viewed) return;
+    viewed = true;
+    trackPlaybackEvent(token, access, 'view');
+  };
+
+  const handleTimeUpdate = () => {
+    const step = video.currentTime - lastTime;
+    lastTime = video.currentTime;
+    if (video.paused || step <= 0 || step > MAX_WATCH_STEP_SECONDS || !video.duration) return;
+
+    watchedSeconds += step;
+    reportQuartiles((watchedSeconds / video.duration) * 100);
+  };
+
+  // timeupdate stops a fraction of a second before the end, which would otherwise never reach 100%
+  const handleEnded = () => {
+    if (!video.duration) return;
+    reportQuartiles(((watchedSeconds + MAX_WATCH_STEP_SECONDS) / video.duration) * 100);
+  };
+
+  const handleSeeked = () => {
+    lastTime = video.currentTime;
+  };
+
+  video.addEventListener('play', handlePlay);
+  video.addEventListener('timeupdate', handleTimeUpdate);
+  video.addEventListener('seeked', handleSeeked);
+  video.addEventListener('ended', handleEnded);
+  return () => {
+    video.removeEventListener('play', handlePlay);
+    video.removeEventListener('timeupdate', handleTimeUpdate);
+    video.removeEventListener('seeked', handleSeeked);
+    video.removeEventListener('ended', handleEnded);
+  };
+}
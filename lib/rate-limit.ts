@@ -0,0 +1,50 @@
+/**
+ * Rate Limit
+ * Fixed-window request counters kept in the database, so every server instance shares them
+ * Server-side only (queries Prisma)
+ */
+
+import prisma from './prisma';
+
+// Windows that ended longer ago than this are deleted
+const WINDOW_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Counts a request against a limit
+ * @param key - What is limited, e.g. "events:ip:<hash>" (hash anything personal)
+ * @param limit - Requests allowed per window
+ * @param windowMs - Window length in milliseconds
+ * @returns Promise<boolean> - False once the current window's limit is used up
+ */
+export async function consumeRateLimit(key: string, limit: number, windowMs: number): Promise<boolean> {
+  const windowStart = new Date(Math.floor(Date.now() / windowMs) * windowMs);
+
+  // The upsert increments atomically, so concurrent requests can't both take the last slot
+  const { count } = await prisma.rateLimitWindow.upsert({
+    where: { key_windowStart: { key, windowStart } },
+    create: { key, windowStart, count: 1 },
+    update: { count: { increment: 1 } },
+    select: { count: true },
+  });
+
+  // the first request of a window is often enough to keep the table small
+  if (count === 1) {
+    await prisma.rateLimitWindow.deleteMany({
+      where: { windowStart: { lt: new Date(windowStart.getTime() - WINDOW_RETENTION_MS) } },
+    });
+  }
+
+  return count <= limit;
+}
+
+/**
+ * Client IP of a request, as reported by the platform's proxy
+ * Clients can send an x-forwarded-for of their own, which the proxy appends to, so only the last
+ * hop (added by the proxy) is trusted
+ * @param headers - Request headers
+ * @returns string - Empty when the request carries neither header
+ */
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return forwardedFor || headers.get('x-real-ip')?.trim() || '';
+}
@@ -0,0 +1,37 @@
+/**
+ * Request Body
+ * Reads the JSON body of an API request, refusing anything that isn't a JSON object
+ * Server-side only (used by the API routes)
+ */
+
+export type JsonObjectResult<T> =
+  | { ok: true; body: T }
+  | { ok: false; error: string; details?: string };
+
+/**
+ * Parses a request body that must be a JSON object
+ * Only the shape is checked; the route still validates every field it reads
+ * @param request - Incoming request
+ * @returns Promise<JsonObjectResult<T>> - The body, or the message to answer 400 with
+ */
+export async function readJsonObject<T extends object = Record<string, unknown>>(
+  request: Request
+): Promise<JsonObjectResult<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (parseError) {
+    return {
+      ok: false,
+      error: 'Invalid JSON payload',
+      details: parseError instanceof Error ? parseError.message : 'Unknown parsing error',
+    };
+  }
+
+  // a JSON null, array or primitive parses fine but has none of the expected fields
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, error: 'Request body must be a JSON object' };
+  }
+
+  return { ok: true, body: body as T };
+}
@@ -0,0 +1,92 @@
+/**
+ * Share Link Tokens
+ * Token generation, password hashing and visitor access grants for public video share links
+ * Server-side only (uses node:crypto)
+ */
+
+import { createHmac, hkdfSync, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const TOKEN_BYTES = 24;  // 32 URL-safe characters
+const HASH_BYTES = 32;
+
+// HKDF info of the grant signing key, so other uses of SHARE_LINK_SECRET get keys of their own
+const ACCESS_KEY_INFO = 'share-link-access-grant';
+
+// How long a visitor may use a link's media after opening it; revoking or expiring the link ends
+// access sooner, since every media request checks the link again
+export const SHARE_ACCESS_TTL_SECONDS = 6 * 60 * 60;
+
+/**
+ * Generates an unguessable token for the /s/[token] URL
+ * @returns string - URL-safe random token
+ */
+export function generateShareToken(): string {
+  return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hashes a share link password for storage
+ * @param password - Plain-text password chosen by the owner
+ * @returns Promise<string> - "salt:hash", both hex
+ */
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, HASH_BYTES);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Checks a password against a stored hash in constant time
+ * @param password - Password typed by the visitor
+ * @param stored - Value from hashSharePassword
+ * @returns Promise<boolean> - True when it matches
+ */
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(':');
+  if (!saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Issues an access grant to a visitor who passed a link's checks (status and password)
+ * @param token - Share link token
+ * @returns string - "expires.signature", sent back by the visitor with media and event requests
+ */
+export function createShareAccess(token: string): string {
+  const expires = Math.floor(Date.now() / 1000) + SHARE_ACCESS_TTL_SECONDS;
+  return `${expires}.${signShareAccess(token, expires)}`;
+}
+
+/**
+ * Checks an access grant from createShareAccess
+ * @param token - Share link token the grant must be for
+ * @param access - Grant sent by the visitor
+ * @returns boolean - True when it was issued for this link and hasn't lapsed
+ */
+export function verifyShareAccess(token: string, access: string | null): boolean {
+  const [expiresText, signature] = (access ?? '').split('.');
+  const expires = Number(expiresText);
+  if (!signature || !Number.isInteger(expires) || expires * 1000 <= Date.now()) return false;
+
+  const expected = Buffer.from(signShareAccess(token, expires));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * HMAC of a grant, keyed with a key derived from SHARE_LINK_SECRET
+ */
+function signShareAccess(token: string, expires: number): string {
+  const secret = process.env.SHARE_LINK_SECRET;
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET is not configured');
+  }
+  const key = Buffer.from(hkdfSync('sha256', secret, '', ACCESS_KEY_INFO, 32));
+  return createHmac('sha256', key).update(`${token}:${expires}`).digest('base64url');
+}
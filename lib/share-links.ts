@@ -0,0 +1,69 @@
+/**
+ * Share Links
+ * Limits, status rules and media URLs of public video share links
+ * Shared by the share link API and the share panel
+ */
+
+export const SHARE_LINK_LIMITS = {
+  MAX_LINKS_PER_VIDEO: 20,
+  MIN_PASSWORD_LENGTH: 8,
+  MAX_PASSWORD_LENGTH: 200,
+  MAX_EXPIRY_DAYS: 365,
+  // Password guesses allowed per window, from one client and on one link from everyone
+  MAX_PASSWORD_ATTEMPTS_PER_CLIENT: 10,
+  MAX_PASSWORD_ATTEMPTS_PER_LINK: 50,
+  PASSWORD_ATTEMPT_WINDOW_MINUTES: 15,
+} as const;
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+// What /api/share/[token]/media/[kind] serves
+export type SharedMediaKind = 'video' | 'poster' | 'download' | 'subtitles';
+
+/**
+ * Expiry choices offered when creating a link (days, null = never)
+ */
+export const SHARE_LINK_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null },
+];
+
+/**
+ * Whether a link still works
+ * @param link - Expiry and revocation dates of the link
+ * @returns ShareLinkStatus - Revocation wins over expiry
+ */
+export function getShareLinkStatus(link: { expiresAt: Date | null; revokedAt: Date | null }): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+/**
+ * Builds the URL of a shared video's media, served through the app so the video's Cloudinary
+ * public id never reaches visitors
+ * @param token - Share link token
+ * @param kind - Which media
+ * @param access - Visitor's grant from the share API
+ * @param language - Subtitle language, for 'subtitles'
+ * @returns string - Path under /api/share/[token]/media (prefix an origin for other sites)
+ */
+export function getSharedMediaUrl(token: string, kind: SharedMediaKind, access: string, language?: string): string {
+  const query = new URLSearchParams({ access });
+  if (language) query.set('language', language);
+  return `/api/share/${encodeURIComponent(token)}/media/${kind}?${query}`;
+}
+
+/**
+ * Builds the poster URL of a link without a password, which needs no access grant
+ * For unfurls (oEmbed), which other sites cache for as long as they like; the poster stops
+ * loading once the link is revoked or expires
+ * @param token - Share link token
+ * @returns string - Path under /api/share/[token]/media (prefix an origin for other sites)
+ */
+export function getSharedPosterUrl(token: string): string {
+  return `/api/share/${encodeURIComponent(token)}/media/poster`;
+}
@@ -0,0 +1,194 @@
+/**
+ * Social Branding
+ * Headline text, logo watermark and pad colour layered onto social images,
+ * and the validation shared by the brand kit API and the Social Share editor
+ */
+
+import type { SocialFormatSpec } from './social-formats';
+
+/**
+ * Where a layer sits on the image (Cloudinary gravity values)
+ */
+export const OVERLAY_POSITIONS = {
+  north_west: 'Top left',
+  north: 'Top',
+  north_east: 'Top right',
+  west: 'Left',
+  center: 'Center',
+  east: 'Right',
+  south_west: 'Bottom left',
+  south: 'Bottom',
+  south_east: 'Bottom right',
+} as const;
+
+export type OverlayPosition = keyof typeof OVERLAY_POSITIONS;
+
+/**
+ * Fonts offered for headlines (Cloudinary renders Google Fonts by name)
+ */
+export const BRAND_FONTS = ['Arial', 'Roboto', 'Montserrat', 'Open Sans', 'Playfair Display', 'Oswald', 'Lobster'] as const;
+
+export const BRANDING_LIMITS = {
+  MAX_HEADLINE_LENGTH: 120,
+  MIN_FONT_SIZE: 12,
+  MAX_FONT_SIZE: 400,
+  MIN_LOGO_SCALE: 0.05,   // Logo width as a fraction of the image width
+  MAX_LOGO_SCALE: 0.5,
+} as const;
+
+export interface HeadlineOverlay {
+  text: string;
+  fontFamily: string;
+  fontSize: number;      // Pixels at the format's output size
+  color: string;         // "#rrggbb"
+  position: OverlayPosition;
+}
+
+export interface LogoOverlay {
+  publicId: string;      // An image from the user's library
+  position: OverlayPosition;
+  scale: number;         // Fraction of the image width
+  opacity: number;       // 1-100
+}
+
+/**
+ * Branding applied to every format; null parts are left out
+ * padColor is the background of formats using the "pad" resize mode (white when null)
+ */
+export interface SocialBranding {
+  headline: HeadlineOverlay | null;
+  logo: LogoOverlay | null;
+  padColor: string | null;
+}
+
+export const DEFAULT_BRANDING: SocialBranding = { headline: null, logo: null, padColor: null };
+
+export const DEFAULT_PAD_COLOR = '#ffffff';
+
+export const DEFAULT_HEADLINE: HeadlineOverlay = {
+  text: '',
+  fontFamily: 'Arial',
+  fontSize: 64,
+  color: '#ffffff',
+  position: 'south',
+};
+
+export const DEFAULT_LOGO: Omit<LogoOverlay, 'publicId'> = {
+  position: 'south_east',
+  scale: 0.15,
+  opacity: 90,
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Validates branding settings received from a request or the database
+ * @param value - Untrusted value
+ * @returns SocialBranding | null - The validated settings, or null if anything is malformed
+ */
+export function parseSocialBranding(value: unknown): SocialBranding | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { headline, logo, padColor } = value as Record<string, unknown>;
+
+  const isPosition = (position: unknown): position is OverlayPosition =>
+    typeof position === 'string' && Object.hasOwn(OVERLAY_POSITIONS, position);
+  const isNumberBetween = (number: unknown, min: number, max: number): number is number =>
+    typeof number === 'number' && Number.isFinite(number) && number >= min && number <= max;
+
+  let parsedHeadline: HeadlineOverlay | null = null;
+  if (headline !== null && headline !== undefined) {
+    if (typeof headline !== 'object') return null;
+    const { text, fontFamily, fontSize, color, position } = headline as Record<string, unknown>;
+    if (
+      typeof text !== 'string' || !text.trim() || text.length > BRANDING_LIMITS.MAX_HEADLINE_LENGTH ||
+      !BRAND_FONTS.includes(fontFamily as (typeof BRAND_FONTS)[number]) ||
+      !isNumberBetween(fontSize, BRANDING_LIMITS.MIN_FONT_SIZE, BRANDING_LIMITS.MAX_FONT_SIZE) ||
+      typeof color !== 'string' || !HEX_COLOR.test(color) ||
+      !isPosition(position)
+    ) {
+      return null;
+    }
+    parsedHeadline = { text, fontFamily: fontFamily as string, fontSize: Math.round(fontSize), color, position };
+  }
+
+  let parsedLogo: LogoOverlay | null = null;
+  if (logo !== null && logo !== undefined) {
+    if (typeof logo !== 'object') return null;
+    const { publicId, position, scale, opacity } = logo as Record<string, unknown>;
+    if (
+      typeof publicId !== 'string' || !publicId ||
+      !isPosition(position) ||
+      !isNumberBetween(scale, BRANDING_LIMITS.MIN_LOGO_SCALE, BRANDING_LIMITS.MAX_LOGO_SCALE) ||
+      !isNumberBetween(opacity, 1, 100)
+    ) {
+      return null;
+    }
+    parsedLogo = { publicId, position, scale, opacity: Math.round(opacity) };
+  }
+
+  if (padColor !== null && padColor !== undefined && (typeof padColor !== 'string' || !HEX_COLOR.test(padColor))) {
+    return null;
+  }
+
+  return { headline: parsedHeadline, logo: parsedLogo, padColor: (padColor as string | undefined) ?? null };
+}
+
+/**
+ * Escapes headline text for a Cloudinary text layer
+ * Commas, slashes and percent signs must reach Cloudinary double-escaped; the URL
+ * builder encodes the layer once, so they are escaped once here
+ */
+function escapeOverlayText(text: string): string {
+  return text.replace(/%/g, '%25').replace(/,/g, '%2C').replace(/\//g, '%2F');
+}
+
+/**
+ * Offsets a layer from the edges it is anchored to
+ */
+function getOverlayOffset(spec: SocialFormatSpec, position: OverlayPosition) {
+  const margin = Math.round(Math.min(spec.width, spec.height) * 0.04);
+  return {
+    gravity: position,
+    x: position.includes('east') || position.includes('west') ? margin : 0,
+    y: position.includes('north') || position.includes('south') ? margin : 0,
+  };
+}
+
+/**
+ * Builds the Cloudinary overlay layers for a format
+ * Sizes are in output pixels, so they assume the image is already resized to the format
+ * @param spec - Target format
+ * @param branding - Branding to apply
+ * @returns Overlays accepted by both CldImage and getCldImageUrl
+ */
+export function getBrandingOverlays(spec: SocialFormatSpec, branding: SocialBranding) {
+  const overlays = [];
+
+  if (branding.logo) {
+    overlays.push({
+      publicId: branding.logo.publicId,
+      width: Math.round(spec.width * branding.logo.scale),
+      effects: [{ opacity: branding.logo.opacity }],
+      position: getOverlayOffset(spec, branding.logo.position),
+    });
+  }
+
+  // a headline still being typed has nothing to render yet
+  if (branding.headline?.text.trim()) {
+    overlays.push({
+      text: {
+        text: escapeOverlayText(branding.headline.text),
+        fontFamily: branding.headline.fontFamily,
+        fontSize: branding.headline.fontSize,
+        fontWeight: 'bold',
+        color: branding.headline.color,
+      },
+      // wrap long headlines inside the image
+      width: Math.round(spec.width * 0.9),
+      crop: 'fit' as const,
+      position: getOverlayOffset(spec, branding.headline.position),
+    });
+  }
+
+  return overlays;
+}
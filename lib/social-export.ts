@@ -0,0 +1,135 @@
+/**
+ * Social Export
+ * Renders an image in several social formats through Cloudinary and bundles them into a ZIP
+ * Client-side only (fetches the rendered images from the browser)
+ */
+
+import { zipSync } from 'fflate';
+import { getCldImageUrl } from 'next-cloudinary';
+import {
+  DEFAULT_LAYOUT,
+  DEFAULT_OUTPUT_OPTIONS,
+  OUTPUT_FORMATS,
+  getSocialTransformation,
+  slugifyFormatName,
+  type SocialFormatSpec,
+  type SocialLayout,
+  type SocialOutputOptions,
+} from './social-formats';
+import { DEFAULT_BRANDING, type SocialBranding } from './social-branding';
+
+export type ExportStatus = 'pending' | 'rendering' | 'done' | 'error';
+
+const CONCURRENT_RENDERS = 3;
+
+/**
+ * Builds the Cloudinary URL of an image rendered in one format
+ * @param publicId - Cloudinary public ID of the source image
+ * @param spec - Target format
+ * @param output - File type and quality
+ * @param layout - Resize mode, manual crop and background removal
+ * @param branding - Headline, logo and pad colour to render into the image
+ * @returns string - Delivery URL
+ */
+export function getSocialImageUrl(
+  publicId: string,
+  spec: SocialFormatSpec,
+  output: SocialOutputOptions = DEFAULT_OUTPUT_OPTIONS,
+  layout: SocialLayout = DEFAULT_LAYOUT,
+  branding: SocialBranding = DEFAULT_BRANDING
+): string {
+  return getCldImageUrl({ src: publicId, ...getSocialTransformation(spec, output, layout, branding) });
+}
+
+/**
+ * Estimates the size of a rendered image before downloading it
+ * Only asks with a HEAD request: fetching the image instead would render a paid transformation
+ * just for the estimate, so without a content-length there is no estimate
+ * @param url - Delivery URL from getSocialImageUrl
+ * @returns Promise<number | null> - Size in bytes, null if it could not be determined
+ */
+export async function estimateImageSize(url: string): Promise<number | null> {
+  try {
+    const head = await fetch(url, { method: 'HEAD' });
+    const length = Number(head.headers.get('content-length'));
+    return head.ok && length > 0 ? length : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the file name used for a format inside the ZIP
+ * e.g. "instagram-square-1-1-1080x1080.webp", or "instagram-square-1-1-1080x1080-2.webp" for
+ * the second format whose name slugifies the same way
+ */
+export function getSocialFileName(name: string, spec: SocialFormatSpec, extension: string, copy = 1): string {
+  const suffix = copy > 1 ? `-${copy}` : '';
+  return `${slugifyFormatName(name)}-${spec.width}x${spec.height}${suffix}.${extension}`;
+}
+
+/**
+ * Renders every format and bundles the results into a ZIP
+ * Formats that fail are reported through onStatus and left out of the ZIP
+ * @param publicId - Cloudinary public ID of the source image
+ * @param formats - Formats to render, keyed by name
+ * @param output - File type and quality applied to every format
+ * @param layouts - Layouts keyed by format name; formats without one are cropped to fill automatically
+ * @param branding - Branding applied to every format
+ * @param onStatus - Called whenever a format changes status
+ * @returns Promise<Blob> - The ZIP archive
+ * @throws Error if no format could be rendered
+ */
+export async function exportSocialFormatsZip(
+  publicId: string,
+  formats: Record<string, SocialFormatSpec>,
+  output: SocialOutputOptions,
+  layouts: Record<string, SocialLayout>,
+  branding: SocialBranding,
+  onStatus: (name: string, status: ExportStatus) => void
+): Promise<Blob> {
+  const extension = OUTPUT_FORMATS[output.format].extension;
+  const entries = Object.entries(formats);
+  const files: Record<string, Uint8Array> = {};
+  let next = 0;
+
+  // names are settled up front, in list order, so formats whose names slugify alike don't overwrite each other
+  const fileNames: Record<string, string> = {};
+  const usedFileNames = new Set<string>();
+  for (const [name, spec] of entries) {
+    let copy = 1;
+    while (usedFileNames.has(getSocialFileName(name, spec, extension, copy))) copy++;
+    fileNames[name] = getSocialFileName(name, spec, extension, copy);
+    usedFileNames.add(fileNames[name]);
+  }
+
+  // a few workers pull formats off the list so large sets don't open dozens of requests
+  const worker = async () => {
+    while (next < entries.length) {
+      const [name, spec] = entries[next++];
+      onStatus(name, 'rendering');
+      try {
+        const response = await fetch(getSocialImageUrl(publicId, spec, output, layouts[name], branding));
+        if (!response.ok) {
+          throw new Error(`Cloudinary responded ${response.status}`);
+        }
+        const blob = await response.blob();
+        files[fileNames[name]] = new Uint8Array(await blob.arrayBuffer());
+        onStatus(name, 'done');
+      } catch (error) {
+        console.error(`❌ Failed to render ${name}:`, error);
+        onStatus(name, 'error');
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENT_RENDERS, entries.length) }, worker));
+
+  if (Object.keys(files).length === 0) {
+    throw new Error('None of the formats could be rendered');
+  }
+
+  // images are already compressed, storing them is as small as deflating and much faster
+  const zip = zipSync(files, { level: 0 });
+  return new Blob([zip as BlobPart], { type: 'application/zip' });
+}
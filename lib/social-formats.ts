@@ -0,0 +1,214 @@
+/**
+ * Social Formats
+ * Built-in social media image sizes and helpers for user-defined presets
+ * Shared by the Social Share page and the social preset API
+ */
+
+import { DEFAULT_BRANDING, DEFAULT_PAD_COLOR, getBrandingOverlays, type SocialBranding } from "./social-branding";
+
+export interface SocialFormatSpec {
+  width: number;
+  height: number;
+  aspectRatio: string;  // Reduced "w:h", as Cloudinary's ar_ parameter expects
+}
+
+/**
+ * Built-in formats, in the order shown in the format picker
+ */
+export const SOCIAL_FORMATS: Record<string, SocialFormatSpec> = {
+  "Instagram Square (1:1)": { width: 1080, height: 1080, aspectRatio: "1:1" },
+  "Instagram Portrait (4:5)": { width: 1080, height: 1350, aspectRatio: "4:5" },
+  "TikTok / Reels (9:16)": { width: 1080, height: 1920, aspectRatio: "9:16" },
+  "Twitter Post (16:9)": { width: 1200, height: 675, aspectRatio: "16:9" },
+  "Twitter Header (3:1)": { width: 1500, height: 500, aspectRatio: "3:1" },
+  "Facebook Cover (205:78)": { width: 820, height: 312, aspectRatio: "205:78" },
+  "LinkedIn Post (1.91:1)": { width: 1200, height: 627, aspectRatio: "400:209" },
+  "YouTube Thumbnail (16:9)": { width: 1280, height: 720, aspectRatio: "16:9" },
+  "Pinterest Pin (2:3)": { width: 1000, height: 1500, aspectRatio: "2:3" },
+};
+
+/**
+ * File types a social image can be downloaded as
+ * PNG is lossless, so the quality setting does not apply to it
+ */
+export const OUTPUT_FORMATS = {
+  png: { label: "PNG", extension: "png", lossy: false },
+  jpg: { label: "JPEG", extension: "jpg", lossy: true },
+  webp: { label: "WebP", extension: "webp", lossy: true },
+  avif: { label: "AVIF", extension: "avif", lossy: true },
+} as const;
+
+export type OutputFormat = keyof typeof OUTPUT_FORMATS;
+
+/**
+ * Output settings applied on top of a format's size
+ * quality is "auto" (Cloudinary picks) or 1-100
+ */
+export interface SocialOutputOptions {
+  format: OutputFormat;
+  quality: "auto" | number;
+}
+
+export const DEFAULT_OUTPUT_OPTIONS: SocialOutputOptions = { format: "png", quality: "auto" };
+
+/**
+ * Common ratios offered by the custom preset editor
+ */
+export const COMMON_ASPECT_RATIOS = ["1:1", "4:5", "2:3", "3:4", "9:16", "16:9", "4:3", "3:1"] as const;
+
+/**
+ * Limits for user-defined presets (checked in the editor and by the API)
+ */
+export const SOCIAL_PRESET_LIMITS = {
+  MIN_DIMENSION: 16,
+  MAX_DIMENSION: 8192,
+  MAX_NAME_LENGTH: 50,
+  MAX_PRESETS_PER_USER: 50,
+} as const;
+
+/**
+ * Reduces width and height to their simplest ratio
+ * @param width - Width in pixels
+ * @param height - Height in pixels
+ * @returns "w:h" string, e.g. 1080x1920 → "9:16"
+ */
+export function toAspectRatio(width: number, height: number): string {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  const divisor = gcd(width, height) || 1;
+  return `${width / divisor}:${height / divisor}`;
+}
+
+
+/**
+ * Turns a format name into a file-name-safe slug
+ * @param name - Format name, e.g. "Instagram Square (1:1)"
+ * @returns Slug, e.g. "instagram-square-1-1"
+ */
+export function slugifyFormatName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Manual crop centre, as fractions (0-1) of the source image's width and height
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Crop rectangle in source image pixels
+ */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Computes the largest crop with the format's aspect ratio, centred as close to
+ * the focal point as the image edges allow
+ * @param source - Source image dimensions in pixels
+ * @param spec - Target format
+ * @param focalPoint - Desired centre of the crop
+ * @returns CropRect - Pixel rectangle inside the source image
+ */
+export function getManualCropRect(
+  source: { width: number; height: number },
+  spec: SocialFormatSpec,
+  focalPoint: FocalPoint
+): CropRect {
+  const targetRatio = spec.width / spec.height;
+  const width = source.width / source.height > targetRatio
+    ? Math.round(source.height * targetRatio)
+    : source.width;
+  const height = Math.min(source.height, Math.round(width / targetRatio));
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), max);
+
+  return {
+    x: clamp(focalPoint.x * source.width - width / 2, source.width - width),
+    y: clamp(focalPoint.y * source.height - height / 2, source.height - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * How an image is fitted into a format whose aspect ratio differs from its own
+ */
+export const RESIZE_MODES = {
+  fill: { label: "Crop to fill", description: "Fills the frame, cutting off what does not fit" },
+  pad: { label: "Pad", description: "Keeps the whole image on a solid background" },
+  blur: { label: "Blurred pad", description: "Keeps the whole image on a blurred copy of itself" },
+  generative: { label: "Generative fill", description: "Keeps the whole image and extends it with AI" },
+} as const;
+
+export type ResizeMode = keyof typeof RESIZE_MODES;
+
+/**
+ * Per-format layout: how the image is fitted, and what is done to it first
+ */
+export interface SocialLayout {
+  mode: ResizeMode;
+  cropRect: CropRect | null;    // Manual crop (from getManualCropRect), only used by "fill"
+  removeBackground: boolean;    // Cuts the subject out before resizing
+}
+
+export const DEFAULT_LAYOUT: SocialLayout = { mode: "fill", cropRect: null, removeBackground: false };
+
+/**
+ * Cloudinary transformation used for a format, shared by the <CldImage> preview
+ * and the export URLs so the downloaded file matches what is shown
+ * The image is resized to the format before any branding layer is added, so layer
+ * sizes are in output pixels; the final "limit" step only lets <CldImage> scale it down
+ * @param spec - Target format
+ * @param output - File type and quality; the explicit format keeps the bytes and extension in sync
+ * @param layout - Resize mode, manual crop and background removal
+ * @param branding - Headline, logo and pad colour layered onto the image
+ * @returns Options accepted by both CldImage and getCldImageUrl
+ */
+export function getSocialTransformation(
+  spec: SocialFormatSpec,
+  output: SocialOutputOptions = DEFAULT_OUTPUT_OPTIONS,
+  layout: SocialLayout = DEFAULT_LAYOUT,
+  branding: SocialBranding = DEFAULT_BRANDING
+) {
+  const cropRect = layout.mode === "fill" ? layout.cropRect : null;
+  const size = `w_${spec.width},h_${spec.height}`;
+  const resize = {
+    fill: `c_fill,${size},g_${cropRect ? "center" : "auto"}`,
+    pad: `c_pad,${size},b_rgb:${(branding.padColor ?? DEFAULT_PAD_COLOR).slice(1)}`,
+    blur: `c_pad,${size},b_blurred:400:15`,
+    generative: `c_pad,${size},b_gen_fill`,
+  }[layout.mode];
+
+  return {
+    width: spec.width,
+    height: spec.height,
+    format: output.format,
+    quality: OUTPUT_FORMATS[output.format].lossy ? output.quality : "auto",
+    removeBackground: layout.removeBackground,
+    crop: [
+      // manual mode: cut the chosen rectangle out of the source first
+      ...(cropRect
+        ? [{
+            type: "crop",
+            gravity: "north_west",
+            x: cropRect.x,
+            y: cropRect.y,
+            width: cropRect.width,
+            height: cropRect.height,
+            source: true,
+          } as const]
+        : []),
+      { type: "limit" } as const,
+    ],
+    rawTransformations: [resize],
+    overlays: getBrandingOverlays(spec, branding),
+  };
+}
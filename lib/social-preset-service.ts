@@ -0,0 +1,62 @@
+/**
+ * Social Preset Service
+ * Handles communication with the social preset API endpoints
+ * Loads, saves and deletes the user's custom social image formats
+ */
+
+import type { SocialFormatSpec } from './social-formats';
+
+export interface SocialPreset extends SocialFormatSpec {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/**
+ * Reads an error message from a failed response
+ */
+async function readError(response: Response, fallback: string): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  console.error(`❌ ${fallback}:`, errorData);
+  return new Error(errorData.error || fallback);
+}
+
+/**
+ * Fetches the signed-in user's custom formats
+ * @returns Promise<SocialPreset[]> - Presets, oldest first
+ */
+export async function getSocialPresets(): Promise<SocialPreset[]> {
+  const response = await fetch('/api/social-presets');
+  if (!response.ok) throw await readError(response, 'Failed to load custom formats');
+  return response.json();
+}
+
+/**
+ * Saves a new custom format
+ * @param preset - Name and dimensions (the aspect ratio is derived by the server)
+ * @returns Promise<SocialPreset> - The saved preset
+ */
+export async function createSocialPreset(
+  preset: { name: string; width: number; height: number }
+): Promise<SocialPreset> {
+  const response = await fetch('/api/social-presets', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(preset),
+  });
+  if (!response.ok) throw await readError(response, 'Failed to save custom format');
+  return response.json();
+}
+
+/**
+ * Deletes a custom format
+ * @param id - Preset id
+ */
+export async function deleteSocialPreset(id: string): Promise<void> {
+  const response = await fetch(`/api/social-presets/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) throw await readError(response, 'Failed to delete custom format');
+}
@@ -0,0 +1,73 @@
+/**
+ * Subtitle Storage
+ * Stores subtitle tracks on Cloudinary as raw WebVTT files: the player loads them from there and
+ * the burn-in transformation overlays them by public ID
+ * Server-side only (uses the upload and Admin APIs)
+ */
+
+import type { UploadApiResponse } from 'cloudinary';
+import cloudinary from './cloudinary-server';
+import { getBurnInTransformation, toWebVtt, type SubtitleCue } from './subtitles';
+
+/**
+ * Public ID of the .vtt file of one track (raw public IDs keep their extension)
+ * @param userId - Owner of the video
+ * @param videoId - Video id
+ * @param language - Track language code
+ * @returns string - e.g. "subtitles/user_123/clx1.en.vtt"
+ */
+export function getSubtitlePublicId(userId: string, videoId: string, language: string): string {
+  return `subtitles/${userId}/${videoId}.${language}.vtt`;
+}
+
+/**
+ * Writes (or overwrites) the .vtt file of a track
+ * @param publicId - From getSubtitlePublicId
+ * @param cues - Validated cues
+ * @returns Promise<string> - Versioned secure URL, so players pick up the new file
+ */
+export async function uploadSubtitleFile(publicId: string, cues: SubtitleCue[]): Promise<string> {
+  const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+    const uploadStream = cloudinary.uploader.upload_stream(
+      {
+        public_id: publicId,
+        resource_type: 'raw',
+        overwrite: true,
+        invalidate: true,
+      },
+      (error, result) => {
+        if (error || !result) {
+          reject(error);
+        } else {
+          resolve(result);
+        }
+      }
+    );
+    uploadStream.end(Buffer.from(toWebVtt(cues), 'utf-8'));
+  });
+
+  return result.secure_url;
+}
+
+/**
+ * Deletes .vtt files from Cloudinary
+ * @param publicIds - Public IDs from getSubtitlePublicId
+ */
+export async function deleteSubtitleFiles(publicIds: string[]): Promise<void> {
+  if (publicIds.length === 0) return;
+  await cloudinary.api.delete_resources(publicIds, { resource_type: 'raw', invalidate: true });
+}
+
+/**
+ * Deletes the burned-in rendition of a track, e.g. after its cues changed (the derivation
+ * references the .vtt file by public ID, so it would otherwise keep the old text)
+ * @param videoPublicId - Public ID of the video
+ * @param subtitlePublicId - Public ID of the track's .vtt file
+ */
+export async function deleteBurnIn(videoPublicId: string, subtitlePublicId: string): Promise<void> {
+  await cloudinary.api.delete_derived_by_transformation(
+    [videoPublicId],
+    getBurnInTransformation(subtitlePublicId),
+    { resource_type: 'video', invalidate: true }
+  );
+}
@@ -0,0 +1,217 @@
+/**
+ * Subtitles
+ * Parses and validates SRT / WebVTT subtitle files, converts cues back to WebVTT and builds the
+ * Cloudinary burn-in transformation. Shared by the subtitle API and the cue editor
+ */
+
+/**
+ * One timed caption, times in seconds
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const SUBTITLE_LIMITS = {
+  MAX_FILE_SIZE: 1024 * 1024,   // 1MB of SRT/VTT text
+  MAX_CUES: 5000,
+  MAX_CUE_LENGTH: 500,          // Characters per cue
+  MAX_LABEL_LENGTH: 100,
+  MAX_TRACKS_PER_VIDEO: 20,
+} as const;
+
+export const SUBTITLE_FILE_EXTENSIONS = ['.srt', '.vtt'] as const;
+
+// Burn-in styling: white text on a translucent box near the bottom edge
+const BURN_IN_FONT = 'Arial_40';
+
+export type SubtitleBurnInStatus = 'processing' | 'ready' | 'failed';
+
+export type SubtitleParseResult =
+  | { ok: true; cues: SubtitleCue[] }
+  | { ok: false; errors: string[] };
+
+// hh:mm:ss.mmm, hh being optional in WebVTT; SRT uses a comma before the milliseconds
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})$/;
+
+// BCP 47 subset: "en", "pt-BR", "zh-Hant"
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/;
+
+/**
+ * Checks a language code (used as the track key, one track per language)
+ * @param value - Candidate code
+ * @returns boolean - True for codes like "en" or "pt-BR"
+ */
+export function isLanguageCode(value: unknown): value is string {
+  return typeof value === 'string' && LANGUAGE_PATTERN.test(value);
+}
+
+/**
+ * Human-readable name of a language code, falling back to the code itself
+ * @param language - Language code
+ * @returns string - e.g. "English" for "en"
+ */
+export function getLanguageLabel(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Parses a subtitle timestamp
+ * @param value - "00:01:02.500", "01:02.500" or "00:01:02,500"
+ * @returns number | null - Seconds, or null when the value isn't a timestamp
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, millis] = match;
+  if (Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+/**
+ * Formats seconds as a WebVTT timestamp
+ * @param seconds - Time in seconds
+ * @returns string - e.g. "00:01:02.500"
+ */
+export function formatTimestamp(seconds: number): string {
+  const totalMillis = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMillis / 3600000);
+  const minutes = Math.floor((totalMillis % 3600000) / 60000);
+  const secs = Math.floor((totalMillis % 60000) / 1000);
+  const millis = totalMillis % 1000;
+
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(millis, 3)}`;
+}
+
+/**
+ * Parses an SRT or WebVTT file (detected from the WEBVTT header)
+ * @param content - File contents
+ * @returns SubtitleParseResult - The cues in time order, or every problem found
+ */
+export function parseSubtitleFile(content: string): SubtitleParseResult {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const isVtt = /^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text);
+  const errors: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  const blocks = text.split(/\n[ \t]*\n/).map((block) => block.trim()).filter(Boolean);
+
+  // position of the block among the file's cue blocks, valid or not, so errors point at the right one
+  let cueNumber = 0;
+
+  blocks.forEach((block, index) => {
+    // the header and WebVTT-only blocks carry no cues
+    if (isVtt && (index === 0 || /^(NOTE|STYLE|REGION)(\s|$)/.test(block))) return;
+
+    cueNumber += 1;
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+
+    if (timingIndex === -1 || timingIndex > 1) {
+      errors.push(`Cue ${cueNumber}: missing "start --> end" timing line`);
+      return;
+    }
+
+    const [startText, endPart = ''] = lines[timingIndex].split('-->');
+    // WebVTT cue settings (align:start, line:0, ...) may follow the end time
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] ?? '');
+
+    if (start === null || end === null) {
+      errors.push(`Cue ${cueNumber}: invalid timestamp in "${lines[timingIndex]}"`);
+      return;
+    }
+
+    cues.push({ start, end, text: lines.slice(timingIndex + 1).join('\n') });
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors: errors.slice(0, 20) };
+  }
+  if (cues.length === 0) {
+    return { ok: false, errors: [`No cues found in the ${isVtt ? 'WebVTT' : 'SRT'} file`] };
+  }
+
+  return validateCues(cues);
+}
+
+/**
+ * Validates cues sent by the editor (or parsed from a file)
+ * @param value - Candidate cue list
+ * @returns SubtitleParseResult - The cues sorted by start time, or every problem found
+ */
+export function validateCues(value: unknown): SubtitleParseResult {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { ok: false, errors: ['cues must be a non-empty list'] };
+  }
+  if (value.length > SUBTITLE_LIMITS.MAX_CUES) {
+    return { ok: false, errors: [`A track can have at most ${SUBTITLE_LIMITS.MAX_CUES} cues`] };
+  }
+
+  const errors: string[] = [];
+  const cues: SubtitleCue[] = [];
+
+  value.forEach((cue, index) => {
+    const label = `Cue ${index + 1}`;
+    const start = Number(cue?.start);
+    const end = Number(cue?.end);
+    const text = typeof cue?.text === 'string' ? cue.text.trim() : '';
+
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0) {
+      errors.push(`${label}: start and end must be non-negative numbers of seconds`);
+    } else if (end <= start) {
+      errors.push(`${label}: end must be after start`);
+    } else if (!text) {
+      errors.push(`${label}: text is empty`);
+    } else if (text.length > SUBTITLE_LIMITS.MAX_CUE_LENGTH) {
+      errors.push(`${label}: text must be at most ${SUBTITLE_LIMITS.MAX_CUE_LENGTH} characters`);
+    } else if (text.includes('-->') || /\n\s*\n/.test(text)) {
+      errors.push(`${label}: text cannot contain "-->" or blank lines`);
+    } else {
+      cues.push({ start: Math.round(start * 1000) / 1000, end: Math.round(end * 1000) / 1000, text });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { ok: false, errors: errors.slice(0, 20) };
+  }
+
+  return { ok: true, cues: cues.sort((a, b) => a.start - b.start || a.end - b.end) };
+}
+
+/**
+ * Converts cues to a WebVTT file (the format stored on Cloudinary and loaded by the player)
+ * @param cues - Validated cues
+ * @returns string - WebVTT file contents
+ */
+export function toWebVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map((cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Cloudinary transformation that burns a subtitle file into the video
+ * Used both to request the eager derivation and to recognise it in the resource's derived list
+ * @param subtitlePublicId - Public ID of the raw .vtt file on Cloudinary
+ * @returns Transformation options for the Cloudinary SDK
+ */
+export function getBurnInTransformation(subtitlePublicId: string) {
+  // layer public IDs use ':' instead of '/' for folders
+  const layerId = subtitlePublicId.replace(/\//g, ':');
+  return {
+    transformation: [
+      { overlay: `subtitles:${BURN_IN_FONT}:${layerId}`, color: 'white', background: 'rgb:00000099' },
+      { flags: 'layer_apply', gravity: 'south', y: 40 },
+    ],
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Upload Resume Store
+ * Persists chunked upload progress in IndexedDB so an interrupted upload
+ * (network drop, tab reload) can continue from the last acknowledged chunk
+ * Client-side only: every function resolves to a no-op when IndexedDB is unavailable
+ */
+
+const DB_NAME = 'cloudinary-uploads';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+// Cloudinary keeps the chunks of an unfinished upload for about a day; an older session
+// points at parts that are gone, so it is dropped and the upload starts over
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface UploadSession {
+  fingerprint: string;  // Identifies the local file (name, size, lastModified)
+  uploadId: string;     // X-Unique-Upload-Id shared by every chunk
+  publicId: string;     // Public id the upload is signed for; resuming renews its signature
+  uploadedBytes: number; // Bytes Cloudinary has acknowledged so far
+  totalBytes: number;
+  updatedAt: number;
+}
+
+/**
+ * Builds a stable key for a local file
+ * The same file re-selected after a reload produces the same fingerprint
+ * @param file - The file being uploaded
+ * @returns string - Fingerprint used as the IndexedDB key
+ */
+export function getFileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * Opens (and on first use creates) the upload session database
+ * @returns Promise<IDBDatabase | null> - null when IndexedDB is not available
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'fingerprint' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against the sessions store
+ * @param mode - Transaction mode
+ * @param run - Builds the request from the object store
+ * @returns Promise<T | undefined> - The request result
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+}
+
+/**
+ * Looks up a stored upload session for a file
+ * Sessions past SESSION_MAX_AGE_MS are deleted instead of returned
+ * @param fingerprint - Key from getFileFingerprint
+ * @returns Promise<UploadSession | null> - The saved session, if any is still resumable
+ */
+export async function getUploadSession(fingerprint: string): Promise<UploadSession | null> {
+  const session = await withStore<UploadSession | undefined>('readonly', (store) => store.get(fingerprint));
+  if (session && Date.now() - session.updatedAt > SESSION_MAX_AGE_MS) {
+    await clearUploadSession(fingerprint);
+    return null;
+  }
+  return session ?? null;
+}
+
+/**
+ * Saves (or replaces) the upload session for a file
+ * @param session - Session state after the latest acknowledged chunk
+ */
+export async function saveUploadSession(session: UploadSession): Promise<void> {
+  await withStore('readwrite', (store) => store.put(session));
+}
+
+/**
+ * Removes the upload session for a file once it completes or is abandoned
+ * @param fingerprint - Key from getFileFingerprint
+ */
+export async function clearUploadSession(fingerprint: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(fingerprint));
+}
@@ -7,9 +7,22 @@
  * File size constants
  */
 export const FILE_SIZE_LIMITS = {
-  MAX_VIDEO_SIZE: 70 * 1024 * 1024, // 70MB in bytes
+  MAX_VIDEO_SIZE: 2 * 1024 * 1024 * 1024, // 2GB in bytes, the largest any plan allows (see lib/plans.ts)
+  UPLOAD_CHUNK_SIZE: 20 * 1024 * 1024, // 20MB per chunk (Cloudinary minimum is 5MB)
 } as const;
 
+/**
+ * Video MIME types accepted for upload (MP4, MOV, AVI, MKV, WebM)
+ * Checked in the browser and again by the server before signing an upload
+ */
+export const ALLOWED_VIDEO_TYPES: readonly string[] = [
+  'video/mp4',
+  'video/quicktime',
+  'video/x-msvideo',
+  'video/x-matroska',
+  'video/webm',
+];
+
 /**
  * Upload progress states
  */
@@ -34,8 +47,7 @@ export function validateVideoFile(file: File | null): void {
 
   // Check file size
   if (file.size > FILE_SIZE_LIMITS.MAX_VIDEO_SIZE) {
-    const maxSizeMB = FILE_SIZE_LIMITS.MAX_VIDEO_SIZE / 1024 / 1024;
-    throw new Error(`File size should be less than ${maxSizeMB}MB`);
+    throw new Error(`File size should be less than ${formatFileSize(FILE_SIZE_LIMITS.MAX_VIDEO_SIZE)}`);
   }
 
   // Check if it's a video file
@@ -43,6 +55,11 @@ export function validateVideoFile(file: File | null): void {
     throw new Error('Please select a valid video file');
   }
 
+  // Check if it's a supported container
+  if (!ALLOWED_VIDEO_TYPES.includes(file.type)) {
+    throw new Error('Unsupported video format. Use MP4, MOV, AVI, MKV or WebM');
+  }
+
   console.log(`📹 File validated: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
 }
 
@@ -73,4 +90,15 @@ export function formatDuration(seconds: number): string {
   const remainingSeconds = Math.floor(seconds % 60);
   
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Calculates how much of the original size compression removed
+ * @param originalSize - Original size in bytes
+ * @param compressedSize - Compressed size in bytes
+ * @returns Whole percentage saved (0 when unknown or the file grew)
+ */
+export function calculateSavingsPercent(originalSize: number, compressedSize: number): number {
+  if (!originalSize) return 0;
+  return Math.max(0, Math.round((1 - compressedSize / originalSize) * 100));
+}
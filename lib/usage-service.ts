@@ -0,0 +1,24 @@
+/**
+ * Usage Service
+ * Handles communication with the usage API endpoint
+ * Reads the signed-in user's plan limits and what is used of them
+ */
+
+import type { UsageSummary } from './plans';
+
+/**
+ * Fetches the signed-in user's plan, limits and usage
+ * @returns Promise<UsageSummary>
+ */
+export async function getUsageSummary(): Promise<UsageSummary> {
+  const response = await fetch('/api/usage');
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load usage:', errorData);
+    throw new Error(errorData.error || 'Failed to load usage');
+  }
+
+  return response.json();
+}
@@ -1,20 +1,34 @@
 /**
  * Video API Service
- * Handles communication with the video upload API endpoint
- * Sends video metadata to the server for database storage
+ * Handles communication with the video API endpoints
+ * Sends video metadata to the server for database storage and reads the library back
  */
 
+import type {
+  ShareLinkDTO,
+  SharedVideoDTO,
+  SubtitleTrackDTO,
+  VideoClipDTO,
+  VideoDTO,
+  VideoRenditionDTO,
+} from './video-serializer';
+import type { SubtitleCue } from './subtitles';
+import type { VideoAnalytics } from './playback-analytics';
+import type { VideoRenditionFormat } from './video-renditions';
+
 export interface VideoMetadata {
   title: string;
   description: string;
   publicId: string;
   videoUrl: string;
-  originalSize: string;
-  compressedSize: string;
+  originalSize: number;    // Bytes
+  compressedSize: number;  // Bytes
   duration: number;
   format?: string;
   width?: number;
   height?: number;
+  codec?: string;
+  bitrate?: number;
 }
 
 export interface VideoApiResponse {
@@ -72,4 +86,488 @@ export function validateVideoMetadata(metadata: Partial<VideoMetadata>): void {
       throw new Error(`Missing required field: ${field}`);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Query options for listing videos (see GET /api/videos)
+ */
+export interface VideoListParams {
+  cursor?: string;
+  limit?: number;
+  q?: string;
+  minDuration?: number;
+  maxDuration?: number;
+  minSize?: number;
+  maxSize?: number;
+  from?: string;
+  to?: string;
+  sort?: 'createdAt' | 'duration' | 'size' | 'compression';
+  order?: 'asc' | 'desc';
+}
+
+export interface VideoListResponse {
+  videos: VideoDTO[];
+  nextCursor: string | null;
+}
+
+/**
+ * Fetches one page of the signed-in user's videos
+ * @param params - Pagination, search, filter and sort options
+ * @returns Promise<VideoListResponse> - The page and the cursor for the next one
+ */
+export async function getVideos(params: VideoListParams = {}): Promise<VideoListResponse> {
+  const searchParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') {
+      searchParams.set(key, String(value));
+    }
+  }
+
+  const response = await fetch(`/api/videos?${searchParams.toString()}`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load videos:', errorData);
+    throw new Error(errorData.error || 'Failed to load videos');
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches a single video owned by the signed-in user
+ * @param id - Video id
+ * @returns Promise<VideoDTO> - The video
+ */
+export async function getVideo(id: string): Promise<VideoDTO> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load video:', errorData);
+    throw new Error(errorData.error || 'Failed to load video');
+  }
+
+  return response.json();
+}
+
+/**
+ * Updates the title, description and/or poster of a video
+ * @param id - Video id
+ * @param changes - Fields to change (setting one poster field clears the other, null on both resets it)
+ * @returns Promise<VideoDTO> - The updated video
+ */
+export async function updateVideo(
+  id: string,
+  changes: {
+    title?: string;
+    description?: string;
+    posterOffset?: number | null;
+    posterPublicId?: string | null;
+  }
+): Promise<VideoDTO> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to update video:', errorData);
+    throw new Error(errorData.error || 'Failed to update video');
+  }
+
+  return response.json();
+}
+
+/**
+ * Deletes a video and its Cloudinary asset
+ * @param id - Video id
+ * @throws Error with the server's message if Cloudinary or the database refused
+ */
+export async function deleteVideo(id: string): Promise<void> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to delete video:', errorData);
+    throw new Error(errorData.error || 'Failed to delete video');
+  }
+}
+
+/**
+ * Fetches a video's social-format renditions, refreshing the status of ones still rendering
+ * @param id - Video id
+ * @returns Promise<VideoRenditionDTO[]> - Renditions, oldest first
+ */
+export async function getVideoRenditions(id: string): Promise<VideoRenditionDTO[]> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/renditions`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load renditions:', errorData);
+    throw new Error(errorData.error || 'Failed to load renditions');
+  }
+
+  const data = await response.json();
+  return data.renditions;
+}
+
+/**
+ * Asks Cloudinary to render social-format renditions of a video
+ * Rendering happens in the background; the returned renditions start as "processing"
+ * @param id - Video id
+ * @param formats - Formats to render (existing ones are rendered again)
+ * @returns Promise<VideoRenditionDTO[]> - The requested renditions
+ */
+export async function createVideoRenditions(
+  id: string,
+  formats: VideoRenditionFormat[]
+): Promise<VideoRenditionDTO[]> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/renditions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ formats }),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to request renditions:', errorData);
+    throw new Error(errorData.error || 'Failed to request renditions');
+  }
+
+  const data = await response.json();
+  return data.renditions;
+}
+
+/**
+ * Fetches a video's clips, refreshing the status of ones still rendering
+ * @param id - Video id
+ * @returns Promise<VideoClipDTO[]> - Clips in timeline order
+ */
+export async function getVideoClips(id: string): Promise<VideoClipDTO[]> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/clips`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load clips:', errorData);
+    throw new Error(errorData.error || 'Failed to load clips');
+  }
+
+  const data = await response.json();
+  return data.clips;
+}
+
+/**
+ * Cuts a clip out of a video
+ * Rendering happens in the background; the returned clip starts as "processing"
+ * @param id - Video id
+ * @param clip - Start and end in seconds, and an optional title
+ * @returns Promise<VideoClipDTO> - The new clip
+ */
+export async function createVideoClip(
+  id: string,
+  clip: { title?: string; startOffset: number; endOffset: number }
+): Promise<VideoClipDTO> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/clips`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(clip),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to create clip:', errorData);
+    throw new Error(errorData.error || 'Failed to create clip');
+  }
+
+  return response.json();
+}
+
+/**
+ * Deletes a clip (database row + Cloudinary file); the parent video is kept
+ * @param id - Video id
+ * @param clipId - Clip id
+ */
+export async function deleteVideoClip(id: string, clipId: string): Promise<void> {
+  const response = await fetch(
+    `/api/videos/${encodeURIComponent(id)}/clips/${encodeURIComponent(clipId)}`,
+    { method: 'DELETE' }
+  );
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to delete clip:', errorData);
+    throw new Error(errorData.error || 'Failed to delete clip');
+  }
+}
+
+/**
+ * Builds the message for a subtitle request that failed validation, listing each problem
+ */
+function getSubtitleErrorMessage(errorData: { error?: string; details?: unknown }, fallback: string): string {
+  const message = errorData.error || fallback;
+  return Array.isArray(errorData.details) ? `${message}:\n${errorData.details.join('\n')}` : message;
+}
+
+/**
+ * Fetches the subtitle tracks of a video, refreshing the status of burn-ins still rendering
+ * @param id - Video id
+ * @returns Promise<SubtitleTrackDTO[]> - Tracks ordered by language
+ */
+export async function getSubtitleTracks(id: string): Promise<SubtitleTrackDTO[]> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/subtitles`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load subtitles:', errorData);
+    throw new Error(errorData.error || 'Failed to load subtitles');
+  }
+
+  const data = await response.json();
+  return data.tracks;
+}
+
+/**
+ * Uploads an SRT or WebVTT file as the track of a language (replacing any existing one)
+ * @param id - Video id
+ * @param track - Language code, file contents and an optional label
+ * @returns Promise<SubtitleTrackDTO> - The saved track
+ */
+export async function uploadSubtitleTrack(
+  id: string,
+  track: { language: string; label?: string; content: string }
+): Promise<SubtitleTrackDTO> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/subtitles`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(track),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to upload subtitles:', errorData);
+    throw new Error(getSubtitleErrorMessage(errorData, 'Failed to upload subtitles'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Saves edits to a subtitle track
+ * @param id - Video id
+ * @param language - Track language code
+ * @param changes - New label and/or the full edited cue list
+ * @returns Promise<SubtitleTrackDTO> - The updated track
+ */
+export async function updateSubtitleTrack(
+  id: string,
+  language: string,
+  changes: { label?: string; cues?: SubtitleCue[] }
+): Promise<SubtitleTrackDTO> {
+  const response = await fetch(
+    `/api/videos/${encodeURIComponent(id)}/subtitles/${encodeURIComponent(language)}`,
+    {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    }
+  );
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to save subtitles:', errorData);
+    throw new Error(getSubtitleErrorMessage(errorData, 'Failed to save subtitles'));
+  }
+
+  return response.json();
+}
+
+/**
+ * Deletes a subtitle track (database row + Cloudinary file)
+ * @param id - Video id
+ * @param language - Track language code
+ */
+export async function deleteSubtitleTrack(id: string, language: string): Promise<void> {
+  const response = await fetch(
+    `/api/videos/${encodeURIComponent(id)}/subtitles/${encodeURIComponent(language)}`,
+    { method: 'DELETE' }
+  );
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to delete subtitles:', errorData);
+    throw new Error(errorData.error || 'Failed to delete subtitles');
+  }
+}
+
+/**
+ * Requests a rendition with the subtitles of one language burned into the picture
+ * Rendering happens in the background; the returned track's burn-in starts as "processing"
+ * @param id - Video id
+ * @param language - Track language code
+ * @returns Promise<SubtitleTrackDTO> - The updated track
+ */
+export async function requestSubtitleBurnIn(id: string, language: string): Promise<SubtitleTrackDTO> {
+  const response = await fetch(
+    `/api/videos/${encodeURIComponent(id)}/subtitles/${encodeURIComponent(language)}/burn-in`,
+    { method: 'POST' }
+  );
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to request burn-in:', errorData);
+    throw new Error(errorData.error || 'Failed to request burn-in');
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetches the share links of a video, newest first (revoked and expired ones included)
+ * @param id - Video id
+ * @returns Promise<ShareLinkDTO[]> - The links with their current status
+ */
+export async function getShareLinks(id: string): Promise<ShareLinkDTO[]> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/share-links`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load share links:', errorData);
+    throw new Error(errorData.error || 'Failed to load share links');
+  }
+
+  const data: { links: ShareLinkDTO[] } = await response.json();
+  return data.links;
+}
+
+/**
+ * Creates a public share link for a video
+ * @param id - Video id
+ * @param options - Optional expiry (ISO date) and password
+ * @returns Promise<ShareLinkDTO> - The new link
+ */
+export async function createShareLink(
+  id: string,
+  options: { expiresAt?: string | null; password?: string | null }
+): Promise<ShareLinkDTO> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/share-links`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to create share link:', errorData);
+    throw new Error(errorData.error || 'Failed to create share link');
+  }
+
+  return response.json();
+}
+
+/**
+ * Revokes a share link; its URL stops working immediately
+ * @param id - Video id
+ * @param linkId - Share link id
+ * @returns Promise<ShareLinkDTO> - The revoked link
+ */
+export async function revokeShareLink(id: string, linkId: string): Promise<ShareLinkDTO> {
+  const response = await fetch(
+    `/api/videos/${encodeURIComponent(id)}/share-links/${encodeURIComponent(linkId)}`,
+    { method: 'DELETE' }
+  );
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to revoke share link:', errorData);
+    throw new Error(errorData.error || 'Failed to revoke share link');
+  }
+
+  return response.json();
+}
+
+export type SharedVideoResult =
+  | { status: 'ok'; video: SharedVideoDTO }
+  | { status: 'password'; error?: string };
+
+/**
+ * Opens a share link as a visitor (no sign-in needed)
+ * @param token - Token from the /s/[token] URL
+ * @param password - Password typed by the visitor, for protected links
+ * @returns Promise<SharedVideoResult> - The video, or 'password' when the link needs one
+ *          (with the server's message when the one sent was wrong)
+ * @throws Error with the server's message for unknown, revoked or expired links
+ */
+export async function getSharedVideo(token: string, password?: string): Promise<SharedVideoResult> {
+  const response = await fetch(`/api/share/${encodeURIComponent(token)}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(password ? { password } : {}),
+  });
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    if (errorData.passwordRequired) {
+      return { status: 'password', error: password ? errorData.error : undefined };
+    }
+    console.error('❌ Failed to open share link:', errorData);
+    throw new Error(errorData.error || 'Failed to open share link');
+  }
+
+  return { status: 'ok', video: await response.json() };
+}
+
+/**
+ * Fetches the playback analytics of a video (views and downloads through its share links and embeds)
+ * @param id - Video id
+ * @param days - Period in days, including today
+ * @returns Promise<VideoAnalytics> - Totals, daily series and referrers
+ */
+export async function getVideoAnalytics(id: string, days: number): Promise<VideoAnalytics> {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}/analytics?days=${days}`);
+
+  // Handle API errors
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('❌ Failed to load analytics:', errorData);
+    throw new Error(errorData.error || 'Failed to load analytics');
+  }
+
+  return response.json();
+}
@@ -0,0 +1,34 @@
+/**
+ * Video Clips
+ * Limits and the Cloudinary trim transformation for clips cut out of a stored video
+ * Shared by the clip API and the timeline editor
+ */
+
+export const CLIP_LIMITS = {
+  MIN_DURATION: 1,        // Seconds
+  MAX_CLIPS_PER_VIDEO: 50,
+  MAX_TITLE_LENGTH: 200,
+} as const;
+
+/**
+ * Rounds an offset down to the 0.1s precision clips are stored with
+ * Rounding down keeps an end handle dragged to the very end within the video's duration
+ * (12.36s becomes 12.3s, not 12.4s)
+ * @param seconds - Offset into the video
+ * @returns number - Rounded offset
+ */
+export function roundClipOffset(seconds: number): number {
+  // the epsilon keeps values like 12.3 (stored as 12.2999...) from dropping a step
+  return Math.floor(seconds * 10 + 1e-6) / 10;
+}
+
+/**
+ * Cloudinary transformation that trims a video to a clip
+ * Used both to request the eager derivation and to recognise it in the resource's derived list
+ * @param startOffset - Clip start in seconds
+ * @param endOffset - Clip end in seconds
+ * @returns Transformation options for the Cloudinary SDK
+ */
+export function getClipTransformation(startOffset: number, endOffset: number) {
+  return { start_offset: startOffset, end_offset: endOffset };
+}
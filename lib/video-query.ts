@@ -0,0 +1,187 @@
+/**
+ * Video Query Parsing
+ * Validates the query string of GET /api/videos and turns it into Prisma arguments
+ * Server-side only (builds Prisma where/orderBy objects)
+ */
+
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Sort keys accepted by the `sort` parameter and the column each one orders by
+ */
+export const VIDEO_SORT_FIELDS = {
+  createdAt: 'createdAt',
+  duration: 'duration',
+  size: 'originalSize',
+  compression: 'compressionRatio',
+} as const;
+
+export type VideoSortKey = keyof typeof VIDEO_SORT_FIELDS;
+
+export const VIDEO_PAGE_LIMITS = {
+  DEFAULT: 24,
+  MAX: 100,
+} as const;
+
+/**
+ * Parsed and validated list query
+ */
+export interface VideoListQuery {
+  cursor: string | null;
+  limit: number;
+  q: string | null;            // Case-insensitive match on title or description
+  minDuration: number | null;  // Seconds
+  maxDuration: number | null;
+  minSize: number | null;      // Original size in bytes
+  maxSize: number | null;
+  from: Date | null;           // createdAt lower bound (inclusive)
+  to: Date | null;             // createdAt upper bound (inclusive)
+  sort: VideoSortKey;
+  order: 'asc' | 'desc';
+}
+
+export type VideoListQueryResult =
+  | { ok: true; query: VideoListQuery }
+  | { ok: false; errors: string[] };
+
+/**
+ * Validates the search params of a list request
+ * @param params - URL search params from the request
+ * @returns VideoListQueryResult - The parsed query, or every validation error found
+ */
+export function parseVideoListQuery(params: URLSearchParams): VideoListQueryResult {
+  const errors: string[] = [];
+
+  const readNumber = (name: string, { integer = false } = {}): number | null => {
+    const raw = params.get(name);
+    if (raw === null || raw.trim() === '') return null;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+      errors.push(`${name} must be a non-negative ${integer ? 'integer' : 'number'}`);
+      return null;
+    }
+    return value;
+  };
+
+  const readDate = (name: string): Date | null => {
+    const raw = params.get(name);
+    if (raw === null || raw.trim() === '') return null;
+
+    const value = new Date(raw);
+    if (Number.isNaN(value.getTime())) {
+      errors.push(`${name} must be an ISO date`);
+      return null;
+    }
+    return value;
+  };
+
+  const limit = readNumber('limit', { integer: true }) ?? VIDEO_PAGE_LIMITS.DEFAULT;
+  if (limit < 1 || limit > VIDEO_PAGE_LIMITS.MAX) {
+    errors.push(`limit must be between 1 and ${VIDEO_PAGE_LIMITS.MAX}`);
+  }
+
+  const minDuration = readNumber('minDuration');
+  const maxDuration = readNumber('maxDuration');
+  const minSize = readNumber('minSize', { integer: true });
+  const maxSize = readNumber('maxSize', { integer: true });
+  const from = readDate('from');
+  const to = readDate('to');
+
+  if (minDuration !== null && maxDuration !== null && minDuration > maxDuration) {
+    errors.push('minDuration must not be greater than maxDuration');
+  }
+  if (minSize !== null && maxSize !== null && minSize > maxSize) {
+    errors.push('minSize must not be greater than maxSize');
+  }
+  if (from && to && from > to) {
+    errors.push('from must not be after to');
+  }
+
+  const sort = params.get('sort') ?? 'createdAt';
+  if (!Object.hasOwn(VIDEO_SORT_FIELDS, sort)) {
+    errors.push(`sort must be one of: ${Object.keys(VIDEO_SORT_FIELDS).join(', ')}`);
+  }
+
+  const order = params.get('order') ?? 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    errors.push('order must be asc or desc');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    query: {
+      cursor: params.get('cursor') || null,
+      limit,
+      q: params.get('q')?.trim() || null,
+      minDuration,
+      maxDuration,
+      minSize,
+      maxSize,
+      from,
+      to,
+      sort: sort as VideoSortKey,
+      order: order as 'asc' | 'desc',
+    },
+  };
+}
+
+/**
+ * Builds the Prisma filter for a user's videos matching the query
+ * @param userId - Owner of the videos
+ * @param query - Parsed list query
+ * @returns Prisma.VideoWhereInput - Filter for findMany
+ */
+export function buildVideoWhere(userId: string, query: VideoListQuery): Prisma.VideoWhereInput {
+  const where: Prisma.VideoWhereInput = { userId };
+
+  if (query.q) {
+    where.OR = [
+      { title: { contains: query.q, mode: 'insensitive' } },
+      { description: { contains: query.q, mode: 'insensitive' } },
+    ];
+  }
+
+  if (query.minDuration !== null || query.maxDuration !== null) {
+    where.duration = {
+      ...(query.minDuration !== null && { gte: query.minDuration }),
+      ...(query.maxDuration !== null && { lte: query.maxDuration }),
+    };
+  }
+
+  if (query.minSize !== null || query.maxSize !== null) {
+    where.originalSize = {
+      ...(query.minSize !== null && { gte: BigInt(query.minSize) }),
+      ...(query.maxSize !== null && { lte: BigInt(query.maxSize) }),
+    };
+  }
+
+  if (query.from || query.to) {
+    where.createdAt = {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && { lte: query.to }),
+    };
+  }
+
+  return where;
+}
+
+/**
+ * Builds a stable ordering for cursor pagination
+ * The id tiebreaker keeps pages consistent when sort values repeat
+ * @param query - Parsed list query
+ * @returns Prisma.VideoOrderByWithRelationInput[] - orderBy for findMany
+ */
+export function buildVideoOrderBy(query: VideoListQuery): Prisma.VideoOrderByWithRelationInput[] {
+  const field = VIDEO_SORT_FIELDS[query.sort];
+  const primary: Prisma.VideoOrderByWithRelationInput =
+    field === 'compressionRatio'
+      ? { compressionRatio: { sort: query.order, nulls: 'last' } }
+      : { [field]: query.order };
+
+  return [primary, { id: query.order }];
+}
@@ -0,0 +1,35 @@
+/**
+ * Video Renditions
+ * Social formats a stored video can be reframed into
+ * Cloudinary crops each one around the detected subject (g_auto)
+ */
+
+export const VIDEO_RENDITION_FORMATS = {
+  vertical: { label: 'Vertical (9:16)', width: 1080, height: 1920 },
+  square: { label: 'Square (1:1)', width: 1080, height: 1080 },
+  portrait: { label: 'Portrait (4:5)', width: 1080, height: 1350 },
+} as const;
+
+export type VideoRenditionFormat = keyof typeof VIDEO_RENDITION_FORMATS;
+
+export type VideoRenditionStatus = 'processing' | 'ready' | 'failed';
+
+/**
+ * Checks that a value names a rendition format
+ * @param value - Untrusted value, e.g. from a request body
+ * @returns boolean - true for a key of VIDEO_RENDITION_FORMATS
+ */
+export function isVideoRenditionFormat(value: unknown): value is VideoRenditionFormat {
+  return typeof value === 'string' && Object.hasOwn(VIDEO_RENDITION_FORMATS, value);
+}
+
+/**
+ * Cloudinary transformation that produces a rendition
+ * Used both to request the eager derivation and to recognise it in the resource's derived list
+ * @param format - Rendition format
+ * @returns Transformation options for the Cloudinary SDK
+ */
+export function getRenditionTransformation(format: VideoRenditionFormat) {
+  const { width, height } = VIDEO_RENDITION_FORMATS[format];
+  return { crop: 'fill', gravity: 'auto', width, height };
+}
@@ -0,0 +1,242 @@
+/**
+ * Video Serializer
+ * Converts Prisma Video, VideoRendition, VideoClip, SubtitleTrack and ShareLink rows into JSON-safe objects for API responses
+ * BigInt columns (byte sizes) cannot be passed to JSON.stringify, so they become numbers
+ */
+
+import type { ShareLink, SubtitleTrack, Video, VideoClip, VideoRendition } from '@prisma/client';
+import type { VideoRenditionFormat, VideoRenditionStatus } from './video-renditions';
+import type { SubtitleBurnInStatus, SubtitleCue } from './subtitles';
+import { getSharedMediaUrl, type ShareLinkStatus } from './share-links';
+
+/**
+ * Video shape returned by the API and consumed by client components
+ */
+export interface VideoDTO {
+  id: string;
+  title: string;
+  description: string | null;
+  publicId: string;
+  videoUrl: string | null;
+  originalSize: number;
+  compressedSize: number;
+  compressionRatio: number | null;
+  duration: number;
+  format: string | null;
+  width: number | null;
+  height: number | null;
+  aspectRatio: number | null;
+  codec: string | null;
+  bitrate: number | null;
+  posterOffset: number | null;
+  posterPublicId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Serializes a single Video row
+ * @param video - Row returned by Prisma
+ * @returns VideoDTO - JSON-safe representation (owner id omitted)
+ */
+export function serializeVideo(video: Video): VideoDTO {
+  return {
+    id: video.id,
+    title: video.title,
+    description: video.description,
+    publicId: video.publicId,
+    videoUrl: video.videoUrl,
+    originalSize: Number(video.originalSize),
+    compressedSize: Number(video.compressedSize),
+    compressionRatio: video.compressionRatio,
+    duration: video.duration,
+    format: video.format,
+    width: video.width,
+    height: video.height,
+    aspectRatio: video.aspectRatio,
+    codec: video.codec,
+    bitrate: video.bitrate,
+    posterOffset: video.posterOffset,
+    posterPublicId: video.posterPublicId,
+    createdAt: video.createdAt.toISOString(),
+    updatedAt: video.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Rendition shape returned by the API
+ */
+export interface VideoRenditionDTO {
+  id: string;
+  format: VideoRenditionFormat;
+  width: number;
+  height: number;
+  url: string;
+  bytes: number | null;  // null until Cloudinary has finished rendering
+  status: VideoRenditionStatus;
+  createdAt: string;
+}
+
+/**
+ * Serializes a single VideoRendition row
+ * @param rendition - Row returned by Prisma
+ * @returns VideoRenditionDTO - JSON-safe representation
+ */
+export function serializeRendition(rendition: VideoRendition): VideoRenditionDTO {
+  return {
+    id: rendition.id,
+    format: rendition.format as VideoRenditionFormat,
+    width: rendition.width,
+    height: rendition.height,
+    url: rendition.url,
+    bytes: rendition.bytes === null ? null : Number(rendition.bytes),
+    status: rendition.status as VideoRenditionStatus,
+    createdAt: rendition.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Clip shape returned by the API
+ */
+export interface VideoClipDTO {
+  id: string;
+  title: string;
+  startOffset: number;
+  endOffset: number;
+  duration: number;
+  url: string;
+  bytes: number | null;  // null until Cloudinary has finished rendering
+  status: VideoRenditionStatus;
+  createdAt: string;
+}
+
+/**
+ * Serializes a single VideoClip row
+ * @param clip - Row returned by Prisma
+ * @returns VideoClipDTO - JSON-safe representation
+ */
+export function serializeClip(clip: VideoClip): VideoClipDTO {
+  return {
+    id: clip.id,
+    title: clip.title,
+    startOffset: clip.startOffset,
+    endOffset: clip.endOffset,
+    duration: clip.duration,
+    url: clip.url,
+    bytes: clip.bytes === null ? null : Number(clip.bytes),
+    status: clip.status as VideoRenditionStatus,
+    createdAt: clip.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Subtitle track shape returned by the API
+ */
+export interface SubtitleTrackDTO {
+  id: string;
+  language: string;
+  label: string;
+  cues: SubtitleCue[];
+  url: string;                              // WebVTT file loaded by the player
+  burnInStatus: SubtitleBurnInStatus | null;  // null until a burn-in is requested
+  burnInUrl: string | null;
+  burnInBytes: number | null;
+  updatedAt: string;
+}
+
+/**
+ * Serializes a single SubtitleTrack row
+ * @param track - Row returned by Prisma
+ * @returns SubtitleTrackDTO - JSON-safe representation
+ */
+export function serializeSubtitleTrack(track: SubtitleTrack): SubtitleTrackDTO {
+  return {
+    id: track.id,
+    language: track.language,
+    label: track.label,
+    cues: track.cues as unknown as SubtitleCue[],
+    url: track.url,
+    burnInStatus: track.burnInStatus as SubtitleBurnInStatus | null,
+    burnInUrl: track.burnInUrl,
+    burnInBytes: track.burnInBytes === null ? null : Number(track.burnInBytes),
+    updatedAt: track.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Share link shape returned to the video's owner (the password itself is never returned)
+ */
+export interface ShareLinkDTO {
+  id: string;
+  token: string;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  status: ShareLinkStatus;
+  createdAt: string;
+}
+
+/**
+ * Serializes a single ShareLink row
+ * @param link - Row returned by Prisma
+ * @param status - From getShareLinkStatus (computed server-side, where the clock is trusted)
+ * @returns ShareLinkDTO - JSON-safe representation
+ */
+export function serializeShareLink(link: ShareLink, status: ShareLinkStatus): ShareLinkDTO {
+  return {
+    id: link.id,
+    token: link.token,
+    hasPassword: link.passwordHash !== null,
+    expiresAt: link.expiresAt?.toISOString() ?? null,
+    revokedAt: link.revokedAt?.toISOString() ?? null,
+    status,
+    createdAt: link.createdAt.toISOString(),
+  };
+}
+
+/**
+ * What a share link visitor gets: enough to play the video, nothing about the owner or storage
+ */
+export interface SharedVideoDTO {
+  title: string;
+  description: string | null;
+  duration: number;
+  width: number | null;
+  height: number | null;
+  // Media goes through /api/share/[token]/media, which re-checks the link on every request
+  videoUrl: string;
+  posterUrl: string;
+  downloadUrl: string;
+  subtitles: { language: string; label: string; url: string }[];
+  access: string;  // Visitor's grant, also sent with playback events
+}
+
+/**
+ * Serializes a video for a share link visitor
+ * @param video - Row returned by Prisma, with its subtitle tracks
+ * @param token - Token of the link the visitor opened
+ * @param access - Grant from createShareAccess
+ * @returns SharedVideoDTO - Public subset of the video, without its Cloudinary public ids
+ */
+export function serializeSharedVideo(
+  video: Video & { subtitles: Pick<SubtitleTrack, 'language' | 'label'>[] },
+  token: string,
+  access: string
+): SharedVideoDTO {
+  return {
+    title: video.title,
+    description: video.description,
+    duration: video.duration,
+    width: video.width,
+    height: video.height,
+    videoUrl: getSharedMediaUrl(token, 'video', access),
+    posterUrl: getSharedMediaUrl(token, 'poster', access),
+    downloadUrl: getSharedMediaUrl(token, 'download', access),
+    subtitles: video.subtitles.map(({ language, label }) => ({
+      language,
+      label,
+      url: getSharedMediaUrl(token, 'subtitles', access, language),
+    })),
+    access,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Video URL Helpers
+ * Builds Cloudinary delivery URLs for stored videos (thumbnails, posters, previews, downloads)
+ * Safe to use from client components, only the public cloud name is needed
+ */
+
+import { getCldImageUrl, getCldVideoUrl } from 'next-cloudinary';
+import type { VideoDTO } from './video-serializer';
+
+// Number of evenly spaced frames offered as poster candidates
+export const POSTER_CANDIDATE_COUNT = 8;
+
+// Cloudinary AI preview of the library grid, at the card size. Kept as one raw string so the
+// upload route can pre-render exactly the URL the card requests (see getVideoPreviewUrl).
+export const VIDEO_PREVIEW_TRANSFORMATION =
+  'e_preview:duration_4:max_seg_2:min_seg_dur_1/c_fill,g_auto,h_360,w_640/f_mp4/q_auto';
+
+/**
+ * Builds a still thumbnail from a video frame
+ * @param publicId - Cloudinary public ID of the video
+ * @param width - Thumbnail width in pixels
+ * @param height - Thumbnail height in pixels
+ * @param offset - Seconds into the video of the frame (Cloudinary's default frame when omitted)
+ * @returns string - JPG image URL
+ */
+export function getVideoThumbnailUrl(publicId: string, width = 640, height = 360, offset?: number): string {
+  return getCldImageUrl({
+    src: publicId,
+    assetType: 'video',
+    width,
+    height,
+    crop: 'fill',
+    gravity: 'auto',
+    format: 'jpg',
+    quality: 'auto',
+    rawTransformations: offset !== undefined ? [`so_${Number(offset.toFixed(2))}`] : undefined,
+  });
+}
+
+/**
+ * Builds the poster of a video: the custom poster image if one was uploaded,
+ * otherwise the chosen frame, otherwise Cloudinary's default frame
+ * @param video - Video with its poster choice
+ * @param width - Poster width in pixels
+ * @param height - Poster height in pixels
+ * @returns string - JPG image URL
+ */
+export function getVideoPosterUrl(
+  video: Pick<VideoDTO, 'publicId' | 'posterOffset' | 'posterPublicId'>,
+  width = 640,
+  height = 360
+): string {
+  if (video.posterPublicId) {
+    return getCldImageUrl({
+      src: video.posterPublicId,
+      width,
+      height,
+      crop: 'fill',
+      gravity: 'auto',
+      format: 'jpg',
+      quality: 'auto',
+    });
+  }
+  return getVideoThumbnailUrl(video.publicId, width, height, video.posterOffset ?? undefined);
+}
+
+/**
+ * Evenly spaced timestamps to offer as poster frames (the middle of each segment,
+ * so neither the first nor the last, often black, frame is used)
+ * @param duration - Video duration in seconds
+ * @param count - Number of candidates
+ * @returns number[] - Offsets in seconds, rounded to tenths
+ */
+export function getPosterCandidateOffsets(duration: number, count = POSTER_CANDIDATE_COUNT): number[] {
+  if (!(duration > 0)) return [];
+  return Array.from({ length: count }, (_, index) => Math.round(((index + 0.5) * duration * 10) / count) / 10);
+}
+
+/**
+ * Builds a short muted preview clip of a video (Cloudinary AI preview) at the library card size
+ * @param publicId - Cloudinary public ID of the video
+ * @returns string - MP4 video URL
+ */
+export function getVideoPreviewUrl(publicId: string): string {
+  return getCldVideoUrl({
+    src: publicId,
+    rawTransformations: [VIDEO_PREVIEW_TRANSFORMATION],
+  });
+}
+
+/**
+ * Builds a progressive MP4 of a video, for plain video elements without adaptive streaming
+ * @param publicId - Cloudinary public ID of the video
+ * @returns string - MP4 video URL
+ */
+export function getVideoPlaybackUrl(publicId: string): string {
+  return getCldVideoUrl({
+    src: publicId,
+    format: 'mp4',
+    quality: 'auto',
+  });
+}
+
+/**
+ * Turns a Cloudinary delivery URL (e.g. a rendition's) into one the browser saves instead of playing
+ * The download attribute of a link is ignored for other origins, so Cloudinary has to send the
+ * file as an attachment
+ * @param url - Cloudinary delivery URL, with or without transformations
+ * @returns string - The same URL with the fl_attachment flag, or the URL as it was if it isn't a delivery URL
+ */
+export function getAttachmentUrl(url: string): string {
+  return url.replace(/\/upload\//, '/upload/fl_attachment/');
+}
+
+/**
+ * Builds a download link of a video: an MP4 the browser saves instead of playing
+ * @param publicId - Cloudinary public ID of the video
+ * @returns string - MP4 video URL served as an attachment
+ */
+export function getVideoDownloadUrl(publicId: string): string {
+  return getCldVideoUrl({
+    src: publicId,
+    format: 'mp4',
+    quality: 'auto',
+    rawTransformations: ['fl_attachment'],
+  });
+}
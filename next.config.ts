@@ -1,10 +1,32 @@
 import type { NextConfig } from "next";
 
+/*
+ * Sites allowed to frame the embed player (CSP frame-ancestors syntax, space separated),
+ * e.g. "https://www.example.com https://*.example.com". Any site by default.
+ * Every other page can only be framed by the app itself.
+ */
+const EMBED_FRAME_ANCESTORS = process.env.EMBED_FRAME_ANCESTORS || "*";
+
 const nextConfig: NextConfig = {
   experimental: {
     // Enable larger body size for file uploads in App Router
     serverComponentsExternalPackages: ['@prisma/client'],
   },
+  async headers() {
+    return [
+      {
+        source: "/embed/:token",
+        headers: [{ key: "Content-Security-Policy", value: `frame-ancestors ${EMBED_FRAME_ANCESTORS}` }],
+      },
+      {
+        source: "/((?!embed/).*)",
+        headers: [
+          { key: "Content-Security-Policy", value: "frame-ancestors 'self'" },
+          { key: "X-Frame-Options", value: "SAMEORIGIN" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,17 @@
+/*
+  Adds per-user ownership to videos.
+
+  - Existing rows predate ownership and have no known uploader. They are
+    backfilled with the placeholder owner 'unassigned' so the column can be
+    made required; reassign them manually with
+    UPDATE "Video" SET "userId" = '<clerk user id>' WHERE "userId" = 'unassigned';
+*/
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "userId" TEXT;
+
+UPDATE "Video" SET "userId" = 'unassigned' WHERE "userId" IS NULL;
+
+ALTER TABLE "Video" ALTER COLUMN "userId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Video_userId_idx" ON "Video"("userId");
@@ -0,0 +1,23 @@
+/*
+  Stores the full Cloudinary metadata for videos.
+
+  - `originalSize` and `compressedSize` change from TEXT to BIGINT. Existing
+    values are cast in place; any value that is not a plain byte count is
+    stored as 0.
+  - The new metadata columns are nullable: rows uploaded before this
+    migration never had them recorded.
+*/
+-- AlterTable
+ALTER TABLE "Video" ALTER COLUMN "originalSize" TYPE BIGINT USING (
+    CASE WHEN trim("originalSize") ~ '^[0-9]+$' THEN trim("originalSize")::BIGINT ELSE 0 END
+),
+ALTER COLUMN "compressedSize" TYPE BIGINT USING (
+    CASE WHEN trim("compressedSize") ~ '^[0-9]+$' THEN trim("compressedSize")::BIGINT ELSE 0 END
+),
+ADD COLUMN     "videoUrl" TEXT,
+ADD COLUMN     "format" TEXT,
+ADD COLUMN     "width" INTEGER,
+ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "aspectRatio" DOUBLE PRECISION,
+ADD COLUMN     "codec" TEXT,
+ADD COLUMN     "bitrate" INTEGER;
@@ -0,0 +1,16 @@
+/*
+  Adds a sortable compression ratio (originalSize / compressedSize) and an
+  index for the default library ordering.
+
+  - Existing rows are backfilled from their stored sizes; rows with a zero
+    compressed size keep NULL.
+*/
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "compressionRatio" DOUBLE PRECISION;
+
+UPDATE "Video"
+SET "compressionRatio" = "originalSize"::DOUBLE PRECISION / "compressedSize"::DOUBLE PRECISION
+WHERE "compressedSize" > 0;
+
+-- CreateIndex
+CREATE INDEX "Video_userId_createdAt_idx" ON "Video"("userId", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Image" ADD COLUMN     "focalPoints" JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "BrandKit" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "branding" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BrandKit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BrandKit_userId_key" ON "BrandKit"("userId");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "VideoRendition" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "bytes" BIGINT,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VideoRendition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoRendition_videoId_format_key" ON "VideoRendition"("videoId", "format");
+
+-- AddForeignKey
+ALTER TABLE "VideoRendition" ADD CONSTRAINT "VideoRendition_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "VideoClip" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "startOffset" DOUBLE PRECISION NOT NULL,
+    "endOffset" DOUBLE PRECISION NOT NULL,
+    "duration" DOUBLE PRECISION NOT NULL,
+    "url" TEXT NOT NULL,
+    "bytes" BIGINT,
+    "status" TEXT NOT NULL DEFAULT 'processing',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VideoClip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoClip_videoId_startOffset_endOffset_key" ON "VideoClip"("videoId", "startOffset", "endOffset");
+
+-- AddForeignKey
+ALTER TABLE "VideoClip" ADD CONSTRAINT "VideoClip_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
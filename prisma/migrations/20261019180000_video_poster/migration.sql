@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Video" ADD COLUMN     "posterOffset" DOUBLE PRECISION,
+ADD COLUMN     "posterPublicId" TEXT;
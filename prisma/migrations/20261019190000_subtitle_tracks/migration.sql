@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "SubtitleTrack" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "cues" JSONB NOT NULL,
+    "publicId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "burnInStatus" TEXT,
+    "burnInUrl" TEXT,
+    "burnInBytes" BIGINT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubtitleTrack_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubtitleTrack_videoId_language_key" ON "SubtitleTrack"("videoId", "language");
+
+-- AddForeignKey
+ALTER TABLE "SubtitleTrack" ADD CONSTRAINT "SubtitleTrack_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "UserPlan" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "plan" TEXT NOT NULL DEFAULT 'free',
+    "storageBytes" BIGINT,
+    "monthlyUploads" INTEGER,
+    "maxVideoDuration" DOUBLE PRECISION,
+    "maxFileSize" BIGINT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserPlan_userId_key" ON "UserPlan"("userId");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "VideoDailyStat" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "quartile25" INTEGER NOT NULL DEFAULT 0,
+    "quartile50" INTEGER NOT NULL DEFAULT 0,
+    "quartile75" INTEGER NOT NULL DEFAULT 0,
+    "quartile100" INTEGER NOT NULL DEFAULT 0,
+    "downloads" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "VideoDailyStat_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VideoDailyReferrer" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "referrer" TEXT NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "VideoDailyReferrer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PlaybackEventKey" (
+    "key" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlaybackEventKey_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoDailyStat_videoId_date_key" ON "VideoDailyStat"("videoId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VideoDailyReferrer_videoId_date_referrer_key" ON "VideoDailyReferrer"("videoId", "date", "referrer");
+
+-- CreateIndex
+CREATE INDEX "PlaybackEventKey_createdAt_idx" ON "PlaybackEventKey"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "VideoDailyStat" ADD CONSTRAINT "VideoDailyStat_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VideoDailyReferrer" ADD CONSTRAINT "VideoDailyReferrer_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video"("id") ON DELETE CASCADE ON UPDATE CASCADE;
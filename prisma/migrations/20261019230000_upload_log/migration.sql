@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "publicId" TEXT NOT NULL,
+    "bytes" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Upload_publicId_key" ON "Upload"("publicId");
+
+-- CreateIndex
+CREATE INDEX "Upload_userId_createdAt_idx" ON "Upload"("userId", "createdAt");
+
+-- Backfill the files uploaded so far, so this month's count carries over
+INSERT INTO "Upload" ("id", "userId", "kind", "publicId", "bytes", "createdAt")
+SELECT "id", "userId", 'video', "publicId", "compressedSize", "createdAt" FROM "Video"
+ON CONFLICT ("publicId") DO NOTHING;
+
+INSERT INTO "Upload" ("id", "userId", "kind", "publicId", "bytes", "createdAt")
+SELECT "id", "userId", 'image', "publicId", "bytes", "createdAt" FROM "Image"
+ON CONFLICT ("publicId") DO NOTHING;
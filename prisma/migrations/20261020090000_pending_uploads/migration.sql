@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Upload" ADD COLUMN     "expiresAt" TIMESTAMP(3),
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'registered';
+
+-- CreateIndex
+CREATE INDEX "Upload_status_expiresAt_idx" ON "Upload"("status", "expiresAt");
@@ -7,7 +7,19 @@ import { NextResponse } from "next/server";
  * once logged in a logic is performed that this route are not availbale to them @isPublicRoute
  */
 const isPublicRoute = createRouteMatcher(["/sign-in", "/sign-up", "/", "/home",]);
-const isPublicApiRoute = createRouteMatcher(["/api/videos"]);
+
+/*
+ * Share link routes (the share page, the embed player, oEmbed and the players' analytics events) are
+ * open to everyone, signed in or not: the share link token is the credential.
+ * Every other API route (including everything under /api/videos) requires a signed-in user.
+ */
+const isShareRoute = createRouteMatcher([
+  "/s/(.*)",
+  "/embed/(.*)",
+  "/api/share/(.*)",
+  "/api/oembed",
+  "/api/events",
+]);
 
 /*
  * This is the main Clerk middleware that runs on every request.
@@ -18,6 +30,11 @@ const isPublicApiRoute = createRouteMatcher(["/api/videos"]);
  * @returns {NextResponse} - Redirects, JSON errors, or allows the request to proceed
  */
 export default clerkMiddleware( async (auth, req) => {
+  // Share links never redirect: visitors may or may not have an account
+  if (isShareRoute(req)) {
+    return NextResponse.next();
+  }
+
   // auth() returns an object containing the user's ID if they are logged in
   const { userId } = await auth();
 
@@ -42,21 +59,21 @@ export default clerkMiddleware( async (auth, req) => {
   // LOGIC FOR USERS NOT LOGGED IN:
   if (!userId) {
     /*
-     * 1. Protection for regular Pages:
-     * If they are NOT logged in and trying to access a page that is NOT public...
+     * 1. Protection for API routes:
+     * If they are NOT logged in and trying to access an API route...
      */
-    if (!isPublicApiRoute(req) && !isPublicRoute(req)) {
-      // ...send them to the sign-in page.
-      return NextResponse.redirect(new URL("/sign-in", req.url));
+    if (isApiRequest) {
+      // ...return an error message instead of a redirect.
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     /*
-     * 2. Protection for API routes:
-     * If they are NOT logged in and trying to access an API route that is NOT public...
+     * 2. Protection for regular Pages:
+     * If they are NOT logged in and trying to access a page that is NOT public...
      */
-    if (isApiRequest && !isPublicApiRoute(req)) {
-      // ...return an error message instead of a redirect.
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (!isPublicRoute(req)) {
+      // ...send them to the sign-in page.
+      return NextResponse.redirect(new URL("/sign-in", req.url));
     }
   }
 